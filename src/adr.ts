@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Architecture Decision Records (ADRs) as structured memories.
+ *
+ * A decision memory can carry an `adr` object with its number, title,
+ * status, context, decision and consequences. The memory's `text` is kept as
+ * a plain-text rendering of those fields so search and the index work
+ * unchanged; it is regenerated whenever a field is edited.
+ *
+ * Decisions saved by older versions of the `remember-decision` prompt as a
+ * pipe-joined string ("**Decision: ...** | Context: ... | Decision: ...")
+ * are parsed back into fields when the store is read.
+ *
+ * @module adr
+ */
+
+import type { MemoryRecord } from "./memoryStore.js";
+
+/** Lifecycle of a decision */
+export type AdrStatus = "proposed" | "accepted" | "superseded";
+
+/** All ADR statuses, for input validation */
+export const ADR_STATUSES: readonly AdrStatus[] = ["proposed", "accepted", "superseded"];
+
+/**
+ * The structured fields of an ADR.
+ */
+export type AdrRecord = {
+  /** Sequential ADR number, unique within the store (never reused) */
+  number: number;
+  /** Short title (e.g. "Use PostgreSQL for persistence") */
+  title: string;
+  /** Where the decision stands */
+  status: AdrStatus;
+  /** Why the decision was needed */
+  context: string;
+  /** What was decided */
+  decision: string;
+  /** Resulting trade-offs, if recorded */
+  consequences?: string;
+};
+
+/** Editable ADR fields (everything except the number) */
+export type AdrFields = Omit<AdrRecord, "number">;
+
+/**
+ * Validates an ADR status.
+ *
+ * @param value - Status name (case-insensitive)
+ * @returns The status
+ * @throws Error if it is not one of ADR_STATUSES
+ */
+export function parseAdrStatus(value: string): AdrStatus {
+  const s = value.trim().toLowerCase() as AdrStatus;
+  if (!ADR_STATUSES.includes(s)) throw new Error(`Unknown ADR status: ${value} (expected one of: ${ADR_STATUSES.join(", ")})`);
+  return s;
+}
+
+/**
+ * Formats an ADR number as a label.
+ *
+ * @example
+ * adrLabel(3) // "ADR-0003"
+ */
+export function adrLabel(n: number): string {
+  return `ADR-${String(n).padStart(4, "0")}`;
+}
+
+/**
+ * Parses an ADR reference such as "3", "ADR-3" or "adr-0003".
+ *
+ * @param ref - The reference
+ * @returns The ADR number, or null if ref is not an ADR reference
+ */
+export function parseAdrRef(ref: string): number | null {
+  const m = /^(?:adr-?)?0*(\d+)$/i.exec(ref.trim());
+  return m ? Number.parseInt(m[1], 10) : null;
+}
+
+/**
+ * Renders ADR fields as the plain text stored in `MemoryRecord.text`.
+ *
+ * @param adr - The ADR fields
+ * @returns Single-paragraph text used for search and history
+ */
+export function adrText(adr: AdrRecord): string {
+  const parts = [
+    `${adrLabel(adr.number)} (${adr.status}): ${adr.title}.`,
+    `Context: ${adr.context}`,
+    `Decision: ${adr.decision}`
+  ];
+  if (adr.consequences) parts.push(`Consequences: ${adr.consequences}`);
+  return parts.join(" ");
+}
+
+/**
+ * Renders an ADR memory as markdown in the usual ADR layout.
+ *
+ * @param r - A memory record with `adr` set
+ * @param level - Heading level for the title (default 2)
+ * @returns Markdown document
+ */
+export function formatAdr(r: MemoryRecord, level = 2): string {
+  const adr = r.adr!;
+  const h = "#".repeat(level);
+  const lines: string[] = [];
+  lines.push(`${h} ${adrLabel(adr.number)}: ${adr.title}`);
+  lines.push("");
+  lines.push(`**Status:** ${adr.status} | **Date:** ${r.createdAt.slice(0, 10)} | **ID:** \`${r.id}\``);
+  lines.push("");
+  lines.push(`${h}# Context`);
+  lines.push(adr.context);
+  lines.push("");
+  lines.push(`${h}# Decision`);
+  lines.push(adr.decision);
+  if (adr.consequences) {
+    lines.push("");
+    lines.push(`${h}# Consequences`);
+    lines.push(adr.consequences);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parses a decision saved as a pipe-joined string by the old
+ * `remember-decision` prompt.
+ *
+ * @param text - Memory text
+ * @returns ADR fields (status "accepted"), or null if text is not in that format
+ *
+ * @example
+ * parseLegacyAdr("**Decision: Use PostgreSQL** | Context: Need ACID | Decision: PostgreSQL 16")
+ */
+export function parseLegacyAdr(text: string): AdrFields | null {
+  const parts = text.split(" | ").map((p) => p.trim());
+  const title = /^\*\*Decision: (.+)\*\*$/.exec(parts[0] || "")?.[1]?.trim();
+  if (!title) return null;
+  const fields: Record<string, string> = {};
+  for (const p of parts.slice(1)) {
+    const m = /^(Context|Decision|Consequences): ([\s\S]*)$/.exec(p);
+    if (!m) return null;
+    fields[m[1].toLowerCase()] = m[2].trim();
+  }
+  if (!fields.context || !fields.decision) return null;
+  const out: AdrFields = { title, status: "accepted", context: fields.context, decision: fields.decision };
+  if (fields.consequences) out.consequences = fields.consequences;
+  return out;
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Automatic backups of memory stores.
+ *
+ * Before a hard delete or a bulk change (purge, gc, dedupe, restoring a
+ * backup), the store's full record set is saved as a timestamped JSON file
+ * in a directory next to it (e.g. `.copilot-memory.backups/`). Only the
+ * newest few are kept. A backup is a plain JSON array of records, so it is
+ * also a valid store file in its own right.
+ *
+ * File names carry the time and the reason:
+ * `2026-10-19T18-35-40-958Z-purge.json`.
+ *
+ * @module backups
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { MemoryRecord } from "./memoryStore.js";
+
+/**
+ * A backup file.
+ */
+export type BackupInfo = {
+  /** File name without `.json`; used to pick a backup to restore */
+  name: string;
+  /** Full path of the backup file */
+  path: string;
+  /** ISO timestamp of when the backup was taken */
+  at: string;
+  /** The operation that triggered it (e.g. "purge") */
+  reason: string;
+  /** Number of records in the backup */
+  records: number;
+};
+
+/** Matches backup file names: ISO timestamp with `:` and `.` replaced, then the reason */
+const BACKUP_NAME = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-([a-z0-9-]+)\.json$/;
+
+/** Resolves the backup directory next to the memory file (`x.json` → `x.backups`, `x.db` → `x.db.backups`) */
+export function resolveBackupDir(memoryPath: string): string {
+  const ext = path.extname(memoryPath);
+  const base = ext.toLowerCase() === ".json" ? path.basename(memoryPath, ext) : path.basename(memoryPath);
+  return path.join(path.dirname(memoryPath), `${base}.backups`);
+}
+
+/** Formats a time as the timestamp part of a backup name (`2026-10-19T18-35-40-958Z`) */
+function stamp(ms: number): string {
+  return new Date(ms).toISOString().replace(/[:.]/g, "-");
+}
+
+/**
+ * Saves records as a new backup (atomically).
+ *
+ * @param dir - Backup directory
+ * @param records - Records to save
+ * @param reason - The operation about to run (lowercase letters, digits and dashes)
+ * @returns The new backup
+ */
+export function writeBackup(dir: string, records: MemoryRecord[], reason: string): BackupInfo {
+  fs.mkdirSync(dir, { recursive: true });
+  // One backup per millisecond, so names never collide and sort in the order taken
+  const taken = new Set(fs.readdirSync(dir).map((f) => f.slice(0, 24)));
+  let ms = Date.now();
+  while (taken.has(stamp(ms))) ms++;
+  const at = new Date(ms).toISOString();
+  const tag = reason.toLowerCase().replace(/[^a-z0-9-]+/g, "-") || "backup";
+  const name = `${stamp(ms)}-${tag}`;
+  const file = path.join(dir, `${name}.json`);
+  const tmp = `${file}.tmp.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
+  fs.writeFileSync(tmp, JSON.stringify(records, null, 2) + "\n", { encoding: "utf-8" });
+  fs.renameSync(tmp, file);
+  return { name, path: file, at, reason: tag, records: records.length };
+}
+
+/**
+ * Lists the backups in a directory, newest first. Files that do not look
+ * like backups are ignored.
+ *
+ * @param dir - Backup directory
+ * @returns Backups (empty if the directory does not exist)
+ */
+export function listBackupFiles(dir: string): BackupInfo[] {
+  if (!fs.existsSync(dir)) return [];
+  const out: BackupInfo[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    const m = BACKUP_NAME.exec(file);
+    if (!m) continue;
+    const full = path.join(dir, file);
+    let records = 0;
+    try { records = readBackup(full).length; } catch { /* listed with 0 records */ }
+    out.push({ name: file.slice(0, -".json".length), path: full, at: `${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z`, reason: m[6], records });
+  }
+  return out.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Reads the records of a backup file.
+ *
+ * @param file - Path to the backup
+ * @returns The saved records
+ * @throws Error if the file is not a JSON array
+ */
+export function readBackup(file: string): MemoryRecord[] {
+  const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!Array.isArray(data)) throw new Error(`Backup must be a JSON array: ${file}`);
+  return data as MemoryRecord[];
+}
+
+/**
+ * Deletes the oldest backups beyond a limit.
+ *
+ * @param dir - Backup directory
+ * @param keep - How many backups to keep
+ * @returns Names of the deleted backups
+ */
+export function rotateBackups(dir: string, keep: number): string[] {
+  const old = listBackupFiles(dir).slice(Math.max(0, keep));
+  for (const b of old) fs.rmSync(b.path, { force: true });
+  return old.map((b) => b.name);
+}
@@ -6,16 +6,39 @@
  * user-friendly command syntax.
  *
  * ## Commands
- * - `add [--tags a,b,c] <text>` - Store a new memory
- * - `search <query> [--limit N] [--raw]` - Search memories
- * - `compress --query <q> [--budget N] [--limit N] [--llm]` - Compress for context
+ * - `add [--tags a,b,c] [--kind decision|preference|convention|episode|todo] [--ttl 14d | --expires YYYY-MM-DD] [--scope global|project] <text>` - Store a new memory
+ * - `edit <id> [--tags a,b,c] [text]` - Update a memory in place
+ * - `history <id>` - Show a memory's revision history
+ * - `diff <id> <rev>` - Diff a past revision against the current text
+ * - `rollback <id> <rev>` - Restore a past revision (recorded as a new revision)
+ * - `adr (list | show <ref> | add --title ... [--scope global|project] | edit <ref> --status ...)` - Manage structured decision records
+ * - `link <from> <supersedes|relates_to|contradicts> <to> [--remove]` / `link <id>` - Link memories or show a memory's links
+ * - `pin <id>` / `unpin <id>` / `pinned` - Pin memories into every compressed context, or list pinned ones
+ * - `expired` / `renew <id> (--ttl 14d | --expires YYYY-MM-DD | --never)` - List expired memories, or renew or clear an expiry
+ * - `search <query> [--limit N] [--raw] [--ranker legacy|bm25|hybrid] [--weights text=1,tags=2,keywords=1.5] [--no-fuzzy]` - Search memories
+ * - `compress --query <q> [--budget N] [--limit N] [--ranker legacy|bm25|hybrid] [--llm]` - Compress for context
  * - `delete <id>` - Soft-delete a memory
- * - `purge (--id | --match | --tag) [--dry-run]` - Hard-delete memories
+ * - `restore <id>` - Undelete a soft-deleted memory
+ * - `trash` - List soft-deleted memories
+ * - `purge (--id | --match | --tag) [--dry-run] [--scope global|project]` - Hard-delete memories
+ * - `gc [--days N] [--dry-run] [--scope global|project]` - Hard-delete tombstones older than the retention window
+ * - `dedupe [--threshold 0.7] [--dry-run] [--scope global|project]` - Merge clusters of near-duplicate memories
+ * - `backups [--scope global|project]` - List the automatic backups taken before purge, gc, dedupe and restores
+ * - `restore-backup <name|latest> [--scope global|project]` - Replace the store's records with a backup
+ * - `conflicts [--llm]` - List memories that probably contradict each other
  * - `export` - Dump all records as JSON
+ * - `migrate-backend <sqlite|json|path> [--from path]` - Copy the store to another backend
+ * - `journal [--limit N]` / `journal compact` - Show recent store operations, or compact the journal
+ * - `replay --until <timestamp> [--out path]` - Reconstruct the store as it was at a past moment
+ * - `lock status` / `lock break [--force]` - Show who holds the store's lock, or remove a stale one
  * - `stats` - Show memory statistics
  * - `help` - Show available commands
  * - `exit` - Quit the CLI
  *
+ * Reads span the global and project layers (see MEMORY_GLOBAL_PATH); writes
+ * go to the project store unless `--scope global` is given, and commands
+ * that take an id change the memory in whichever layer holds it.
+ *
  * ## Usage
  * ```bash
  * npm run dev      # Run with tsx (development)
@@ -29,8 +52,10 @@
 import "dotenv/config";
 import readline from "node:readline";
 import process from "node:process";
-import { addMemory, compressDeterministic, computeStats, exportJson, formatSearchResults, loadStore, purge, search, softDeleteById } from "./memoryStore.js";
-import { deepSeekCompress } from "./deepseek.js";
+import { type FieldWeights, type LockInfo, type Ranker, addAdr, addMemory, breakLock, compactJournal, compressDeterministic, computeStats, conflictCandidates, dedupe, diffRevision, exportJson, findConflicts, findMemory, formatGraph, formatStoreLocation, formatHistory, formatSearchResults, gcTombstones, linkMemories, listBackups, expiringMemories, isExpired, loadStore, locateStore, lockStatus, maybeAutoGc, migrateBackend, pinnedMemories, purge, readStoreJournal, replayStore, restoreBackup, restoreById, rollbackMemory, scopePath, search, setExpiry, setPinned, softDeleteById, updateAdr, updateMemory } from "./memoryStore.js";
+import { adrLabel, formatAdr } from "./adr.js";
+import { MAX_LLM_CONFLICT_MEMORIES, addLlmConflicts, formatConflicts } from "./conflicts.js";
+import { deepSeekCompress, deepSeekConflicts } from "./deepseek.js";
 
 /**
  * Parsed command structure from user input.
@@ -106,12 +131,40 @@ function printHelp(): void {
   console.log([
     "",
     "Commands:",
-    "  add [--tags a,b,c] <text>",
-    "  search <query> [--limit N] [--raw]",
-    "  compress --query <q> [--budget N] [--limit N] [--llm]",
+    "  add [--tags a,b,c] [--kind decision|preference|convention|episode|todo] [--ttl 14d | --expires YYYY-MM-DD] [--scope global|project] <text>",
+    "  edit <id> [--tags a,b,c] [text]",
+    "  history <id>",
+    "  diff <id> <rev>",
+    "  rollback <id> <rev>",
+    "  adr list",
+    "  adr show <id|ADR-n>",
+    "  adr add --title <t> --context <c> --decision <d> [--consequences <x>] [--status proposed|accepted|superseded] [--tags a,b] [--scope global|project]",
+    "  adr edit <id|ADR-n> [--title <t>] [--context <c>] [--decision <d>] [--consequences <x>] [--status <s>] [--tags a,b]",
+    "  link <from> <supersedes|relates_to|contradicts> <to> [--remove]",
+    "  link <id>",
+    "  pin <id>",
+    "  unpin <id>",
+    "  pinned",
+    "  expired",
+    "  renew <id> (--ttl 14d | --expires YYYY-MM-DD | --never)",
+    "  search <query> [--limit N] [--raw] [--ranker legacy|bm25|hybrid] [--weights text=1,tags=2,keywords=1.5] [--no-fuzzy]",
+    "  compress --query <q> [--budget N] [--limit N] [--ranker legacy|bm25|hybrid] [--llm]",
     "  delete <id>",
-    "  purge (--id <id> | --match <substr> | --tag <tag>) [--dry-run]",
+    "  restore <id>",
+    "  trash",
+    "  purge (--id <id> | --match <substr> | --tag <tag>) [--dry-run] [--scope global|project]",
+    "  gc [--days N] [--dry-run] [--scope global|project]",
+    "  dedupe [--threshold 0.7] [--dry-run] [--scope global|project]",
+    "  backups [--scope global|project]",
+    "  restore-backup <name|latest> [--scope global|project]",
+    "  conflicts [--llm]",
     "  export",
+    "  migrate-backend <sqlite|json|path> [--from <path>]",
+    "  journal [--limit N]",
+    "  journal compact",
+    "  replay --until <timestamp> [--out <path>]",
+    "  lock status",
+    "  lock break [--force]",
     "  stats",
     "  help",
     "  exit",
@@ -146,20 +199,315 @@ function getInt(v: any, fallback: number): number {
   return Number.isFinite(n) ? n : fallback;
 }
 
+/**
+ * Parses BM25 field weights from `field=value` pairs.
+ *
+ * @param s - Comma-separated pairs (e.g., "text=1,tags=3")
+ * @returns Partial weights object
+ * @throws Error on unknown fields or non-numeric values
+ *
+ * @example
+ * parseWeights("tags=3,keywords=0.5")
+ * // Returns: { tags: 3, keywords: 0.5 }
+ */
+function parseWeights(s: string | undefined): Partial<FieldWeights> {
+  const out: Partial<FieldWeights> = {};
+  for (const pair of parseCsv(s)) {
+    const [k, v] = pair.split("=").map((x) => x.trim());
+    const n = Number(v);
+    if (k !== "text" && k !== "tags" && k !== "keywords") throw new Error(`Unknown weight field: ${k} (expected text, tags or keywords)`);
+    if (!v || !Number.isFinite(n) || n < 0) throw new Error(`Invalid weight for ${k}: ${v ?? ""}`);
+    out[k] = n;
+  }
+  return out;
+}
+
 /**
  * Handles the `add` command - stores a new memory.
  *
- * @param p - Parsed command with text in args and optional --tags
+ * @param p - Parsed command with text in args, optional --tags, --kind and --scope
  *
  * @example
  * // add --tags react,patterns Always use custom hooks for shared logic
+ * // add --kind decision --tags database We chose PostgreSQL for ACID compliance
+ * // add --scope global --kind preference I prefer tabs over spaces
  */
 async function cmdAdd(p: Parsed): Promise<void> {
   const tags = parseCsv(typeof p.opts.tags === "string" ? p.opts.tags : undefined);
+  const kind = typeof p.opts.kind === "string" ? p.opts.kind : undefined;
+  const expires = optString(p, "ttl") ?? optString(p, "expires");
   const text = p.args.join(" ").trim();
   if (!text) { console.log("❌ add requires text."); return; }
-  const rec = await addMemory({ text, tags });
-  console.log(`✅ Added ${rec.id}`);
+  const memoryPath = scopePath(optString(p, "scope"));
+  const { record: rec, duplicates } = await addMemory({ memoryPath, text, tags, kind, expires });
+  console.log(`✅ Added ${rec.id}${rec.kind ? ` (${rec.kind})` : ""}${rec.expiresAt ? `, expires ${rec.expiresAt.slice(0, 10)}` : ""}`);
+  if (duplicates.length > 0) {
+    console.log("⚠️  Looks like a duplicate of:");
+    for (const d of duplicates.slice(0, 3)) console.log(`- ${d.id} (${Math.round(d.similarity * 100)}%) ${d.text}`);
+    console.log("Run `dedupe --dry-run` to review and merge duplicates.");
+  }
+}
+
+/**
+ * Handles the `edit` command - updates a memory in place.
+ *
+ * Text after the id replaces the memory text; --tags replaces the tags.
+ * The id and createdAt are preserved.
+ *
+ * @param p - Parsed command with id in args[0], optional text and --tags
+ *
+ * @example
+ * // edit m_20241213T150000000Z_abc123 Always use custom hooks for shared state
+ * // edit m_20241213T150000000Z_abc123 --tags react,hooks
+ */
+async function cmdEdit(p: Parsed): Promise<void> {
+  const id = p.args[0]?.trim();
+  if (!id) { console.log("❌ edit requires an id."); return; }
+  const text = p.args.slice(1).join(" ").trim() || undefined;
+  const tags = typeof p.opts.tags === "string" ? parseCsv(p.opts.tags) : undefined;
+  if (text === undefined && tags === undefined) { console.log("❌ edit requires new text and/or --tags."); return; }
+  const res = await updateMemory({ id, text, tags, source: "cli" });
+  console.log(res.found ? `✏️  Updated ${id}` : "∅ Not found.");
+}
+
+/**
+ * Parses a revision argument, accepting both "3" and "r3".
+ *
+ * @param v - Raw revision argument
+ * @returns Revision number, or NaN if invalid
+ */
+function parseRev(v: string | undefined): number {
+  const m = /^r?(\d+)$/i.exec((v || "").trim());
+  return m ? parseInt(m[1], 10) : NaN;
+}
+
+/**
+ * Handles the `history` command - shows a memory's revision history.
+ *
+ * @param records - Current memory records
+ * @param p - Parsed command with memory ID or ADR reference in args[0]
+ *
+ * @example
+ * // history m_20241213T150000000Z_abc123
+ * // history ADR-3
+ */
+function cmdHistory(records: any[], p: Parsed): void {
+  const id = p.args[0]?.trim();
+  if (!id) { console.log("❌ history requires an id."); return; }
+  const rec = findMemory(records, id);
+  if (!rec) { console.log("∅ Not found."); return; }
+  console.log(formatHistory(rec));
+}
+
+/**
+ * Handles the `diff` command - compares a past revision with the current text.
+ *
+ * @param records - Current memory records
+ * @param p - Parsed command with memory ID or ADR reference in args[0] and revision in args[1]
+ *
+ * @example
+ * // diff m_20241213T150000000Z_abc123 1
+ * // diff ADR-3 1
+ */
+function cmdDiff(records: any[], p: Parsed): void {
+  const id = p.args[0]?.trim();
+  const rev = parseRev(p.args[1]);
+  if (!id || !Number.isFinite(rev)) { console.log("❌ diff requires an id and a revision number."); return; }
+  const rec = findMemory(records, id);
+  if (!rec) { console.log("∅ Not found."); return; }
+  console.log(diffRevision(rec, rev));
+}
+
+/**
+ * Handles the `rollback` command - restores a past revision.
+ *
+ * The rollback is recorded as a new revision, so it can itself be undone.
+ *
+ * @param p - Parsed command with memory ID in args[0] and revision in args[1]
+ *
+ * @example
+ * // rollback m_20241213T150000000Z_abc123 2
+ */
+async function cmdRollback(p: Parsed): Promise<void> {
+  const id = p.args[0]?.trim();
+  const rev = parseRev(p.args[1]);
+  if (!id || !Number.isFinite(rev)) { console.log("❌ rollback requires an id and a revision number."); return; }
+  const res = await rollbackMemory({ id, rev, source: "cli" });
+  console.log(res.found ? `⏪ Rolled back ${id} to r${rev}` : "∅ Not found.");
+}
+
+/** Reads a string option, or undefined if absent or given without a value */
+function optString(p: Parsed, key: string): string | undefined {
+  return typeof p.opts[key] === "string" ? p.opts[key] as string : undefined;
+}
+
+/**
+ * Handles the `adr` command - lists, shows, records and edits ADRs.
+ *
+ * ADRs can be referenced by memory ID or by number (`ADR-3`, `3`).
+ * Multi-word field values need quotes.
+ *
+ * @param records - Current memory records
+ * @param p - Parsed command with a subcommand in args[0]
+ *
+ * @example
+ * // adr add --title "Use PostgreSQL" --context "Need ACID transactions" --decision "PostgreSQL 16"
+ * // adr edit ADR-3 --status superseded
+ * // adr show 3
+ */
+async function cmdAdr(records: any[], p: Parsed): Promise<void> {
+  const sub = (p.args[0] || "list").toLowerCase();
+  const ref = p.args[1]?.trim();
+
+  if (sub === "list") {
+    const adrs = records.filter((r) => r.adr && !r.deletedAt).sort((a, b) => a.adr.number - b.adr.number);
+    if (adrs.length === 0) { console.log("∅ No ADRs recorded."); return; }
+    for (const r of adrs) console.log(`${adrLabel(r.adr.number)}  [${r.adr.status}]  ${r.adr.title}  (${r.id})`);
+    return;
+  }
+
+  if (sub === "show") {
+    if (!ref) { console.log("❌ adr show requires an id or ADR number."); return; }
+    const rec = findMemory(records, ref);
+    if (!rec?.adr) { console.log("∅ Not found."); return; }
+    console.log(formatAdr(rec, 1));
+    return;
+  }
+
+  if (sub === "add") {
+    const title = optString(p, "title");
+    const context = optString(p, "context");
+    const decision = optString(p, "decision");
+    if (!title || !context || !decision) { console.log("❌ adr add requires --title, --context and --decision."); return; }
+    const rec = await addAdr({
+      memoryPath: scopePath(optString(p, "scope")),
+      title,
+      context,
+      decision,
+      consequences: optString(p, "consequences"),
+      status: optString(p, "status"),
+      tags: parseCsv(optString(p, "tags"))
+    });
+    console.log(`✅ Recorded ${adrLabel(rec.adr!.number)} (${rec.id})`);
+    return;
+  }
+
+  if (sub === "edit") {
+    if (!ref) { console.log("❌ adr edit requires an id or ADR number."); return; }
+    const tags = optString(p, "tags");
+    const res = await updateAdr({
+      id: ref,
+      title: optString(p, "title"),
+      context: optString(p, "context"),
+      decision: optString(p, "decision"),
+      consequences: optString(p, "consequences"),
+      status: optString(p, "status"),
+      tags: tags !== undefined ? parseCsv(tags) : undefined,
+      source: "cli"
+    });
+    console.log(res.found ? `✏️  Updated ${adrLabel(res.record!.adr!.number)}` : "∅ Not found.");
+    return;
+  }
+
+  console.log(`❌ Unknown adr subcommand: ${sub} (expected list, show, add, edit)`);
+}
+
+/**
+ * Handles the `link` command - links two memories, or shows one memory's links.
+ *
+ * @param records - Current memory records
+ * @param p - Parsed command with from, type, to in args (or just an id), optional --remove
+ *
+ * @example
+ * // link m_20250301T100000000Z_aaa111 supersedes m_20240101T100000000Z_bbb222
+ * // link ADR-4 relates_to ADR-2 --remove
+ * // link ADR-2
+ */
+async function cmdLink(records: any[], p: Parsed): Promise<void> {
+  const [from, type, to] = p.args.map((a) => a.trim());
+  if (!from) { console.log("❌ link requires an id, or <from> <type> <to>."); return; }
+  if (!type) {
+    const rec = findMemory(records, from);
+    console.log(rec ? formatGraph(records, rec) : "∅ Not found.");
+    return;
+  }
+  if (!to) { console.log("❌ link requires <from> <supersedes|relates_to|contradicts> <to>."); return; }
+  const remove = Boolean(p.opts.remove);
+  const res = await linkMemories({ from, to, type, remove, source: "cli" });
+  if (!res.found) { console.log("∅ Not found."); return; }
+  if (remove) console.log(res.changed ? `✂️  Removed link: ${from} ${type} ${to}` : "∅ No such link.");
+  else console.log(res.changed ? `🔗 Linked: ${from} ${type} ${to}` : "ℹ️  Already linked.");
+}
+
+/**
+ * Handles the `pin` and `unpin` commands - sets whether a memory is always
+ * placed first in compressed context.
+ *
+ * @param p - Parsed command with memory ID or ADR reference in args[0]
+ * @param pinned - true for `pin`, false for `unpin`
+ *
+ * @example
+ * // pin m_20241213T150000000Z_abc123
+ * // unpin ADR-2
+ */
+async function cmdPin(p: Parsed, pinned: boolean): Promise<void> {
+  const id = p.args[0]?.trim();
+  if (!id) { console.log(`❌ ${pinned ? "pin" : "unpin"} requires an id.`); return; }
+  const res = await setPinned({ id, pinned });
+  if (!res.found) { console.log("∅ Not found."); return; }
+  if (!res.changed) console.log(pinned ? "ℹ️  Already pinned." : "ℹ️  Not pinned.");
+  else console.log(pinned ? `📌 Pinned ${res.record!.id}` : `📍 Unpinned ${res.record!.id}`);
+}
+
+/**
+ * Handles the `pinned` command - lists pinned memories, oldest first.
+ *
+ * @param records - Current memory records
+ */
+function cmdPinned(records: any[]): void {
+  const pinned = pinnedMemories(records);
+  if (pinned.length === 0) { console.log("∅ No pinned memories."); return; }
+  for (const r of pinned) {
+    const tagStr = r.tags.length ? ` [${r.tags.join(", ")}]` : "";
+    console.log(`- ${r.id}${tagStr} ${r.text}`);
+  }
+}
+
+/**
+ * Handles the `expired` command - lists memories past their expiry,
+ * longest expired first. They no longer appear in search or compress.
+ *
+ * @param records - Current memory records
+ */
+function cmdExpired(records: any[]): void {
+  const now = Date.now();
+  const expired = expiringMemories(records).filter((r) => isExpired(r, now));
+  if (expired.length === 0) { console.log("∅ No expired memories."); return; }
+  for (const r of expired) {
+    const tagStr = r.tags.length ? ` [${r.tags.join(", ")}]` : "";
+    console.log(`- ${r.id}${tagStr} (expired ${r.expiresAt}) ${r.text}`);
+  }
+  console.log("Use `renew <id> --ttl 14d` to keep one, or `delete <id>` to let it go.");
+}
+
+/**
+ * Handles the `renew` command - sets a new expiry on a memory, or removes it.
+ *
+ * @param p - Parsed command with memory ID in args[0] and --ttl, --expires or --never
+ *
+ * @example
+ * // renew m_20241213T150000000Z_abc123 --ttl 14d
+ * // renew m_20241213T150000000Z_abc123 --expires 2026-12-01
+ * // renew m_20241213T150000000Z_abc123 --never
+ */
+async function cmdRenew(p: Parsed): Promise<void> {
+  const id = p.args[0]?.trim();
+  if (!id) { console.log("❌ renew requires an id."); return; }
+  const expires = p.opts.never ? null : optString(p, "ttl") ?? optString(p, "expires");
+  if (expires === undefined) { console.log("❌ renew requires --ttl, --expires or --never."); return; }
+  const res = await setExpiry({ id, expires });
+  if (!res.found) { console.log("∅ Not found."); return; }
+  console.log(res.record!.expiresAt ? `⏳ ${res.record!.id} now expires ${res.record!.expiresAt}` : `♾️  ${res.record!.id} no longer expires`);
 }
 
 /**
@@ -168,18 +516,25 @@ async function cmdAdd(p: Parsed): Promise<void> {
  * Outputs prettified markdown by default, or compact format with --raw.
  *
  * @param records - Current memory records
- * @param p - Parsed command with query in args, optional --limit and --raw
+ * @param p - Parsed command with query in args, optional --limit, --raw, --ranker, --weights and --no-fuzzy
  *
  * @example
  * // search typescript --limit 5
  * // search "error handling" --raw
+ * // search tag:decision -tag:deprecated database after:2025-01-01
+ * // search '"strict mode"' -legacy
+ * // search testing --ranker bm25 --weights tags=3
+ * // search postgres --ranker hybrid
+ * // search migrations --no-fuzzy
  */
 function cmdSearch(records: any[], p: Parsed): void {
   const q = p.args.join(" ").trim();
   if (!q) { console.log("❌ search requires a query."); return; }
   const limit = getInt(p.opts.limit, 10);
   const raw = Boolean(p.opts.raw);
-  const hits = search(records, q, limit);
+  const ranker = typeof p.opts.ranker === "string" ? p.opts.ranker.toLowerCase() as Ranker : undefined;
+  const weights = typeof p.opts.weights === "string" ? parseWeights(p.opts.weights) : undefined;
+  const hits = search(records, q, limit, { ranker, weights, fuzzy: !p.opts["no-fuzzy"] });
 
   if (raw) {
     // Raw mode: compact format for scripting
@@ -201,11 +556,12 @@ function cmdSearch(records: any[], p: Parsed): void {
  * DEEPSEEK_API_KEY set, uses LLM-assisted compression for smarter results.
  *
  * @param records - Current memory records
- * @param p - Parsed command with --query, optional --budget, --limit, --llm
+ * @param p - Parsed command with --query, optional --budget, --limit, --ranker, --llm
  *
  * @example
  * // compress --query "react patterns" --budget 800
  * // compress --query "authentication" --llm
+ * // compress --query "database choices" --ranker hybrid
  */
 async function cmdCompress(records: any[], p: Parsed): Promise<void> {
   const query = typeof p.opts.query === "string" ? p.opts.query : p.args.join(" ").trim();
@@ -213,8 +569,9 @@ async function cmdCompress(records: any[], p: Parsed): Promise<void> {
 
   const budget = getInt(p.opts.budget, 1200);
   const limit = getInt(p.opts.limit, 25);
+  const ranker = typeof p.opts.ranker === "string" ? p.opts.ranker.toLowerCase() as Ranker : undefined;
 
-  const det = compressDeterministic({ records, query, budget, limit });
+  const det = compressDeterministic({ records, query, budget, limit, ranker });
   let md = det.markdown;
 
   const wantLLM = Boolean(p.opts.llm);
@@ -236,7 +593,8 @@ async function cmdCompress(records: any[], p: Parsed): Promise<void> {
  * Handles the `delete` command - soft-deletes a memory by ID.
  *
  * Sets a deletedAt timestamp (tombstone). Record remains in store
- * but is excluded from searches. Can be hard-deleted later with purge.
+ * but is excluded from searches. Can be undone with restore, or
+ * hard-deleted later with purge.
  *
  * @param p - Parsed command with memory ID in args[0]
  *
@@ -250,6 +608,41 @@ async function cmdDelete(p: Parsed): Promise<void> {
   console.log(res.found ? `🗑️  Soft-deleted ${id}` : "∅ Not found.");
 }
 
+/**
+ * Handles the `restore` command - undeletes a soft-deleted memory by ID.
+ *
+ * Clears the deletedAt tombstone so the memory shows up in searches again.
+ *
+ * @param p - Parsed command with memory ID in args[0]
+ *
+ * @example
+ * // restore m_20241213T150000000Z_abc123
+ */
+async function cmdRestore(p: Parsed): Promise<void> {
+  const id = p.args[0]?.trim();
+  if (!id) { console.log("❌ restore requires an id."); return; }
+  const res = await restoreById({ id });
+  console.log(res.found ? `♻️  Restored ${id}` : "∅ Not found.");
+}
+
+/**
+ * Handles the `trash` command - lists soft-deleted (tombstoned) memories.
+ *
+ * Newest deletions are listed first.
+ *
+ * @param records - Current memory records
+ */
+function cmdTrash(records: any[]): void {
+  const deleted = records
+    .filter((r) => r.deletedAt)
+    .sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt));
+  if (deleted.length === 0) { console.log("∅ Trash is empty."); return; }
+  for (const r of deleted) {
+    const tagStr = r.tags.length ? ` [${r.tags.join(", ")}]` : "";
+    console.log(`- ${r.id}${tagStr} (deleted ${r.deletedAt}) ${r.text}`);
+  }
+}
+
 /**
  * Handles the `purge` command - hard-deletes memories permanently.
  *
@@ -268,9 +661,131 @@ async function cmdPurge(p: Parsed): Promise<void> {
   const match = typeof p.opts.match === "string" ? p.opts.match : undefined;
   const tag = typeof p.opts.tag === "string" ? p.opts.tag : undefined;
   const dryRun = Boolean(p.opts["dry-run"]);
-  const res = await purge({ id, match, tag, dryRun });
+  const res = await purge({ memoryPath: scopePath(optString(p, "scope")), id, match, tag, dryRun });
   console.log(dryRun ? `🔎 Dry run: would purge ${res.purged} memories:` : `🔥 Purged ${res.purged} memories:`);
   for (const mid of res.ids) console.log(`- ${mid}`);
+  printBackup(res.backup);
+}
+
+/**
+ * Handles the `gc` command - removes old tombstones permanently.
+ *
+ * Soft-deleted memories older than the retention window are hard-deleted.
+ * The window defaults to MEMORY_TOMBSTONE_RETENTION_DAYS (or 30 days).
+ * Use --dry-run to preview what would be removed.
+ *
+ * @param p - Parsed command with optional --days and --dry-run
+ *
+ * @example
+ * // gc --dry-run
+ * // gc --days 7
+ */
+async function cmdGc(p: Parsed): Promise<void> {
+  const retentionDays = p.opts.days !== undefined ? getInt(p.opts.days, NaN) : undefined;
+  if (retentionDays !== undefined && !(retentionDays >= 0)) { console.log("❌ --days must be a non-negative number."); return; }
+  const dryRun = Boolean(p.opts["dry-run"]);
+  const res = await gcTombstones({ memoryPath: scopePath(optString(p, "scope")), retentionDays, dryRun });
+  const window = `older than ${res.retentionDays} day${res.retentionDays === 1 ? "" : "s"}`;
+  console.log(dryRun ? `🔎 Dry run: would remove ${res.purged} tombstones ${window}:` : `🧹 Removed ${res.purged} tombstones ${window}:`);
+  for (const mid of res.ids) console.log(`- ${mid}`);
+  printBackup(res.backup);
+}
+
+/**
+ * Handles the `dedupe` command - merges clusters of near-duplicate memories.
+ *
+ * Each cluster keeps its oldest memory, which gains the others' tags; the
+ * rest are soft-deleted (and can be restored). Use --dry-run to preview.
+ *
+ * @param p - Parsed command with optional --threshold (0-1) and --dry-run
+ *
+ * @example
+ * // dedupe --dry-run
+ * // dedupe --threshold 0.8
+ */
+async function cmdDedupe(p: Parsed): Promise<void> {
+  const threshold = p.opts.threshold !== undefined ? Number.parseFloat(String(p.opts.threshold)) : undefined;
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) { console.log("❌ --threshold must be a number between 0 and 1."); return; }
+  const dryRun = Boolean(p.opts["dry-run"]);
+  const res = await dedupe({ memoryPath: scopePath(optString(p, "scope")), threshold, dryRun, source: "cli" });
+  if (res.clusters.length === 0) { console.log("∅ No duplicates found."); return; }
+  const total = res.clusters.reduce((n, c) => n + c.drop.length, 0);
+  console.log(dryRun ? `🔎 Dry run: would merge ${total} memories into ${res.clusters.length}:` : `🧬 Merged ${res.merged} memories into ${res.clusters.length}:`);
+  for (const c of res.clusters) {
+    console.log(`- keep ${c.keep.id} ${c.keep.text}`);
+    for (const d of c.drop) console.log(`  - ${dryRun ? "merge" : "merged"} ${d.id} (${Math.round(d.similarity * 100)}%) ${d.text}`);
+  }
+  printBackup(res.backup);
+}
+
+/** Prints the name of the backup taken before a destructive command, if one was */
+function printBackup(name: string | undefined): void {
+  if (name) console.log(`💾 Backup ${name} (undo with: restore-backup ${name})`);
+}
+
+/**
+ * Handles the `backups` command - lists the store's automatic backups.
+ *
+ * @param p - Parsed command with optional --scope
+ */
+function cmdBackups(p: Parsed): void {
+  const { dir, backups } = listBackups({ memoryPath: scopePath(optString(p, "scope")) });
+  if (backups.length === 0) { console.log(`∅ No backups yet (${dir}).`); return; }
+  for (const b of backups) console.log(`${b.name}  ${b.reason.padEnd(8)}${b.records} memories`);
+}
+
+/**
+ * Handles the `restore-backup` command - replaces the store's records with
+ * a backup. The current records are backed up first.
+ *
+ * @param p - Parsed command with the backup name (or "latest") in args[0] and optional --scope
+ *
+ * @example
+ * // restore-backup latest
+ * // restore-backup 2026-10-19T18-35-40-958Z-purge
+ */
+async function cmdRestoreBackup(p: Parsed): Promise<void> {
+  const name = p.args[0]?.trim();
+  if (!name) { console.log("❌ restore-backup requires a backup name (see backups) or \"latest\"."); return; }
+  const res = await restoreBackup({ memoryPath: scopePath(optString(p, "scope")), name, source: "cli" });
+  console.log(`♻️  Restored ${res.restored} memories from ${res.name}`);
+  printBackup(res.backup);
+}
+
+/**
+ * Handles the `conflicts` command - lists likely contradictions.
+ *
+ * Uses deterministic rules by default. With --llm flag and DEEPSEEK_API_KEY
+ * set, pairs found by the LLM are added.
+ *
+ * @param records - Current memory records
+ * @param p - Parsed command with optional --llm
+ *
+ * @example
+ * // conflicts
+ * // conflicts --llm
+ */
+async function cmdConflicts(records: any[], p: Parsed): Promise<void> {
+  let conflicts = findConflicts(records);
+
+  const key = (process.env.DEEPSEEK_API_KEY || "").trim();
+  if (p.opts.llm) {
+    if (!key) {
+      console.log("⚠️  --llm requested, but DEEPSEEK_API_KEY is not set. Using deterministic rules only.");
+    } else {
+      const baseUrl = (process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com").trim();
+      const model = (process.env.DEEPSEEK_MODEL || "deepseek-chat").trim();
+      const candidates = conflictCandidates(records).slice(-MAX_LLM_CONFLICT_MEMORIES);
+      try {
+        const pairs = await deepSeekConflicts({ baseUrl, apiKey: key, model }, candidates.map((r) => ({ id: r.id, text: r.text })));
+        conflicts = addLlmConflicts(conflicts, candidates, pairs);
+      } catch (err) {
+        console.log(`⚠️  LLM conflict check failed (${err instanceof Error ? err.message : String(err)}). Using deterministic rules only.`);
+      }
+    }
+  }
+
+  console.log(formatConflicts(conflicts));
 }
 
 /**
@@ -284,6 +799,105 @@ function cmdExport(records: any[]): void {
   console.log(exportJson(records));
 }
 
+/**
+ * Handles the `migrate-backend` command - copies the store to another backend.
+ *
+ * The target is a backend name (the store path with that backend's
+ * extension) or a file path. The source store is left as it is.
+ *
+ * @param p - Parsed command with the target in args[0] and optional --from
+ *
+ * @example
+ * // migrate-backend sqlite
+ * // migrate-backend json --from .copilot-memory.db
+ */
+async function cmdMigrateBackend(p: Parsed): Promise<void> {
+  const to = p.args[0]?.trim();
+  if (!to) { console.log("❌ migrate-backend requires a backend (sqlite, json) or a target file."); return; }
+  const res = await migrateBackend({ from: optString(p, "from"), to });
+  console.log(`🚚 Copied ${res.copied} memories from ${res.from} to ${res.to}`);
+  console.log(`Set MEMORY_PATH=${res.to} to use it.`);
+}
+
+/**
+ * Handles the `journal` command - lists recent store operations, or
+ * compacts the journal into a snapshot with `journal compact`.
+ *
+ * @param p - Parsed command with optional "compact" in args[0] and --limit (default 20)
+ *
+ * @example
+ * // journal --limit 50
+ * // journal compact
+ */
+async function cmdJournal(p: Parsed): Promise<void> {
+  if (p.args[0] === "compact") {
+    const res = await compactJournal();
+    console.log(`🗜️  Compacted ${res.removed} journal entries into a snapshot of ${res.records} memories`);
+    return;
+  }
+  const { journalPath, entries } = readStoreJournal({ limit: getInt(p.opts.limit, 20) });
+  if (entries.length === 0) { console.log(`∅ No journal entries yet (${journalPath}).`); return; }
+  for (const e of entries) {
+    const who = e.by ? ` by ${e.by}` : "";
+    const what = e.op === "snapshot" ? `${e.records?.length ?? 0} memories`
+      : e.op === "purge" ? (e.ids || []).join(", ")
+      : `${e.record?.id} ${(e.record?.text || "").slice(0, 60)}`;
+    console.log(`${e.at}  ${e.op.padEnd(8)}${what}${who}`);
+  }
+}
+
+/**
+ * Handles the `replay` command - reconstructs the store at a past moment.
+ *
+ * Prints the reconstructed records as JSON, or writes them to a new store
+ * file with --out. The live store is left alone.
+ *
+ * @param p - Parsed command with --until (ISO timestamp or date) and optional --out
+ *
+ * @example
+ * // replay --until 2026-10-01T12:00:00Z
+ * // replay --until 2026-10-01 --out before-purge.json
+ */
+async function cmdReplay(p: Parsed): Promise<void> {
+  const until = optString(p, "until");
+  if (!until) { console.log("❌ replay requires --until <timestamp>."); return; }
+  const res = await replayStore({ until, out: optString(p, "out") });
+  if (!res.out) { process.stdout.write(exportJson(res.records)); return; }
+  console.log(`⏪ Replayed ${res.applied} journal entries up to ${res.lastAt}: ${res.records.length} memories written to ${res.out}`);
+}
+
+/**
+ * Handles the `lock` command - shows who holds the store's lock
+ * (`lock status`), or removes a lock left behind by a crashed process
+ * (`lock break`). A lock whose owner is still running is only broken
+ * with --force.
+ *
+ * @param p - Parsed command with "status" or "break" in args[0], optional --force and --scope
+ *
+ * @example
+ * // lock status
+ * // lock break --force
+ */
+function cmdLock(p: Parsed): void {
+  const action = p.args[0] || "status";
+  const memoryPath = scopePath(optString(p, "scope"));
+  const describe = (l: LockInfo) => {
+    const owner = l.pid ? `pid ${l.pid} (${l.alive ? "running" : "not running"})` : "unknown owner";
+    return `${owner}, taken ${l.acquiredAt}, ${Math.round((l.ageMs ?? 0) / 1000)}s ago${l.stale ? ", stale" : ""}`;
+  };
+  if (action === "status") {
+    const lock = lockStatus({ memoryPath });
+    console.log(lock.held ? `🔒 Locked by ${describe(lock)}: ${lock.path}` : `🔓 Not locked: ${lock.path}`);
+    return;
+  }
+  if (action !== "break") { console.log("❌ Usage: lock status | lock break [--force]"); return; }
+  const res = breakLock({ memoryPath, force: Boolean(p.opts.force) });
+  if (!res.lock.held) console.log(`🔓 Not locked: ${res.lock.path}`);
+  else if (res.broken) console.log(`🔨 Removed lock held by ${describe(res.lock)}`);
+  else if (!res.lock.stale) console.log(`⚠️  Lock held by ${describe(res.lock)}; use --force to remove it anyway.`);
+  else console.log("🔓 The lock was released or reclaimed in the meantime.");
+}
+
 /**
  * Handles the `stats` command - shows memory statistics.
  *
@@ -293,7 +907,11 @@ function cmdExport(records: any[]): void {
  */
 function cmdStats(records: any[]): void {
   const s = computeStats(records);
-  console.log(`total=${s.total} active=${s.active} deleted=${s.deleted}`);
+  console.log(`total=${s.total} active=${s.active} deleted=${s.deleted} expired=${s.expired}`);
+  const kinds = Object.entries(s.kinds).sort((a, b) => b[1] - a[1]);
+  if (kinds.length) console.log(`kinds: ${kinds.map(([k, v]) => `${k}=${v}`).join(" ")}`);
+  const layers = Object.entries(s.layers);
+  if (layers.length) console.log(`layers: ${layers.map(([k, v]) => `${k}=${v}`).join(" ")}`);
   const entries = Object.entries(s.tags).sort((a, b) => b[1] - a[1]).slice(0, 25);
   if (entries.length) {
     console.log("top tags:");
@@ -304,7 +922,7 @@ function cmdStats(records: any[]): void {
 /**
  * Processes a single line of user input.
  *
- * Parses the command, reloads the store for fresh data,
+ * Parses the command, reloads every layer for fresh data,
  * and dispatches to the appropriate handler.
  *
  * @param line - Raw user input
@@ -318,17 +936,39 @@ async function handleLine(line: string, state: { memoryPath: string; records: an
   if (p.cmd === "exit" || p.cmd === "quit") return false;
   if (p.cmd === "help" || p.cmd === "?") { printHelp(); return true; }
 
-  const loaded = loadStore(state.memoryPath);
+  const loaded = loadStore();
   state.records = loaded.records;
 
   try {
     switch (p.cmd) {
       case "add": await cmdAdd(p); break;
+      case "edit": await cmdEdit(p); break;
+      case "history": cmdHistory(state.records, p); break;
+      case "diff": cmdDiff(state.records, p); break;
+      case "rollback": await cmdRollback(p); break;
+      case "adr": await cmdAdr(state.records, p); break;
+      case "link": await cmdLink(state.records, p); break;
+      case "pin": await cmdPin(p, true); break;
+      case "unpin": await cmdPin(p, false); break;
+      case "pinned": cmdPinned(state.records); break;
+      case "expired": cmdExpired(state.records); break;
+      case "renew": await cmdRenew(p); break;
       case "search": cmdSearch(state.records, p); break;
       case "compress": await cmdCompress(state.records, p); break;
       case "delete": await cmdDelete(p); break;
+      case "restore": await cmdRestore(p); break;
+      case "trash": cmdTrash(state.records); break;
       case "purge": await cmdPurge(p); break;
+      case "gc": await cmdGc(p); break;
+      case "dedupe": await cmdDedupe(p); break;
+      case "backups": cmdBackups(p); break;
+      case "restore-backup": await cmdRestoreBackup(p); break;
+      case "conflicts": await cmdConflicts(state.records, p); break;
       case "export": cmdExport(state.records); break;
+      case "migrate-backend": await cmdMigrateBackend(p); break;
+      case "journal": await cmdJournal(p); break;
+      case "replay": await cmdReplay(p); break;
+      case "lock": cmdLock(p); break;
       case "stats": cmdStats(state.records); break;
       default: console.log(`❌ Unknown command: ${p.cmd}`); printHelp();
     }
@@ -349,15 +989,22 @@ async function handleLine(line: string, state: { memoryPath: string; records: an
  * ```
  * $ npm run dev
  * 📦 Loaded 42 memories
+ * 📁 Store: /home/me/project/.copilot-memory.json (existing store)
+ * 🌐 Global: /home/me/.copilot-memory/global.json
  * Type "help" for available commands, "exit" to quit.
  *
  * memory> search typescript
  * ```
  */
 export async function main(): Promise<void> {
+  const gc = await maybeAutoGc();
+  if (gc && gc.purged > 0) console.log(`🧹 Auto-GC removed ${gc.purged} tombstones older than ${gc.retentionDays} days`);
   const loaded = loadStore();
   const active = loaded.records.filter((r: any) => !r.deletedAt).length;
   console.log(`📦 Loaded ${active} memories`);
+  console.log(`📁 Store: ${formatStoreLocation(locateStore())}`);
+  const global = loaded.layers.find((l) => l.scope === "global");
+  if (global) console.log(`🌐 Global: ${global.memoryPath}`);
   console.log(`Type "help" for available commands, "exit" to quit.\n`);
 
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
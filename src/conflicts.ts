@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Deterministic detection of contradicting memories.
+ *
+ * Flags pairs of preferences, decisions and conventions (and untyped notes)
+ * that probably disagree, so they can be fixed before both reach the model:
+ *
+ * - linked: one memory has a `contradicts` link to the other
+ * - opposite: one takes a positive stance ("always use", "prefer") and the
+ *   other a negative one ("never", "avoid", "don't") on the same subject,
+ *   e.g. "Always use semicolons" / "Don't use semicolons"
+ * - value: the same sentence with a different value in one slot,
+ *   e.g. "Prefer tabs" / "Prefer spaces", "Indent with 2 spaces" / "Indent with 4 spaces"
+ *
+ * The rules are heuristics: they favour catching real conflicts over
+ * silence, and a flagged pair can be resolved by editing one memory or
+ * linking the newer one as superseding the older.
+ *
+ * @module conflicts
+ */
+
+import type { MemoryRecord } from "./memoryStore.js";
+import { stem } from "./fuzzy.js";
+import { stopWordsFor } from "./stopwords.js";
+
+/** How a conflict was found */
+export type ConflictMethod = "linked" | "opposite" | "value" | "llm";
+
+/**
+ * A pair of memories that probably contradict each other.
+ */
+export type Conflict = {
+  /** The older memory */
+  a: MemoryRecord;
+  /** The newer memory */
+  b: MemoryRecord;
+  /** Short human-readable explanation */
+  reason: string;
+  method: ConflictMethod;
+};
+
+/** Words that express a positive stance */
+const POSITIVE_WORDS = new Set([
+  "use", "uses", "using", "prefer", "prefers", "preferred", "always", "choose", "chose", "chosen",
+  "adopt", "enable", "like", "want", "favor", "favour", "should", "must", "pick",
+]);
+
+/** Words that express a negative stance */
+const NEGATIVE_WORDS = new Set([
+  "avoid", "avoids", "never", "not", "no", "disable", "ban", "banned", "dislike", "forbid", "forbidden", "stop",
+]);
+
+/** Most memories sent to the LLM in one conflict check (the newest are kept) */
+export const MAX_LLM_CONFLICT_MEMORIES = 200;
+
+/** Longest differing span (in words) that still counts as one value */
+const MAX_VALUE_WORDS = 3;
+
+/** Share of the shorter memory's subject words both must mention to be about the same thing */
+const MIN_SUBJECT_OVERLAP = 0.6;
+
+/** A memory prepared for comparison */
+type Prepared = {
+  record: MemoryRecord;
+  /** Stemmed words in order */
+  words: string[];
+  /** Stemmed words that are neither stop words nor stance words */
+  subject: Set<string>;
+  stance: -1 | 0 | 1;
+  stop: Set<string>;
+};
+
+/**
+ * Splits text into lowercase words, spelling out contractions
+ * ("don't" becomes "do not").
+ */
+function words(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/n['’]t\b/g, " not")
+    .split(/[^\p{L}\p{N}_#+]+/u)
+    .filter(Boolean);
+}
+
+/** Prepares a memory for comparison. ADRs are compared by their decision. */
+function prepare(r: MemoryRecord): Prepared {
+  const raw = words(r.adr ? r.adr.decision : r.text);
+  const stop = stopWordsFor(r.text, raw);
+  const negative = raw.some((w) => NEGATIVE_WORDS.has(w));
+  const positive = raw.some((w) => POSITIVE_WORDS.has(w));
+  const subject = new Set(raw.filter((w) => !stop.has(w) && !POSITIVE_WORDS.has(w) && !NEGATIVE_WORDS.has(w)).map(stem));
+  return { record: r, words: raw.map(stem), subject, stance: negative ? -1 : positive ? 1 : 0, stop };
+}
+
+/** Whether a word carries meaning (not a stop or stance word) */
+function isContent(p: Prepared, w: string): boolean {
+  return !p.stop.has(w) && !POSITIVE_WORDS.has(w) && !NEGATIVE_WORDS.has(w);
+}
+
+/** Checks for opposite stances on the same subject */
+function opposite(x: Prepared, y: Prepared): string | null {
+  if (x.stance === 0 || y.stance === 0 || x.stance === y.stance) return null;
+  const shared = [...x.subject].filter((w) => y.subject.has(w));
+  const smaller = Math.min(x.subject.size, y.subject.size);
+  if (shared.length === 0 || shared.length / smaller < MIN_SUBJECT_OVERLAP) return null;
+  return `Opposite stance on "${shared.join(" ")}"`;
+}
+
+/** Checks for the same sentence with a different value in one place */
+function differentValue(x: Prepared, y: Prepared): string | null {
+  if (x.stance !== y.stance) return null;
+  const a = x.words;
+  const b = y.words;
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+
+  const spanA = a.slice(pre, a.length - suf);
+  const spanB = b.slice(pre, b.length - suf);
+  if (spanA.length === 0 || spanB.length === 0) return null;
+  if (spanA.length > MAX_VALUE_WORDS || spanB.length > MAX_VALUE_WORDS) return null;
+  if (pre + suf < Math.max(a.length, b.length) / 2) return null;
+
+  // The shared frame must say something, and both values must be real words
+  const frame = [...a.slice(0, pre), ...a.slice(a.length - suf)];
+  if (!frame.some((w) => isContent(x, w) || POSITIVE_WORDS.has(w))) return null;
+  if (!spanA.some((w) => isContent(x, w)) || !spanB.some((w) => isContent(y, w))) return null;
+
+  const original = (p: Prepared, span: string[]) => words(p.record.adr ? p.record.adr.decision : p.record.text).slice(pre, pre + span.length).join(" ");
+  return `Different values: "${original(x, spanA)}" vs "${original(y, spanB)}"`;
+}
+
+/**
+ * Finds likely contradictions among memories.
+ *
+ * Only preferences, decisions, conventions and untyped memories are
+ * compared; episodes and todos describe events and work, not rules.
+ * The caller decides which memories are candidates (e.g. active ones).
+ *
+ * @param records - Candidate memory records
+ * @returns Conflicting pairs, in order of the older memory's creation
+ */
+export function detectConflicts(records: MemoryRecord[]): Conflict[] {
+  const prepared = records
+    .filter((r) => r.kind !== "episode" && r.kind !== "todo")
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    .map(prepare);
+
+  const out: Conflict[] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const x = prepared[i];
+      const y = prepared[j];
+      const linked = [x, y].some((p, k) => (p.record.links || []).some((l) => l.type === "contradicts" && l.target === [y, x][k].record.id));
+      let reason: string | null = linked ? "Marked as contradicting" : null;
+      let method: ConflictMethod = "linked";
+      if (!reason) { reason = opposite(x, y); method = "opposite"; }
+      if (!reason) { reason = differentValue(x, y); method = "value"; }
+      if (reason) out.push({ a: x.record, b: y.record, reason, method });
+    }
+  }
+  return out;
+}
+
+/**
+ * Adds conflicts reported by an LLM, skipping pairs already found and ids
+ * that are not among the candidates.
+ *
+ * @param conflicts - Conflicts found by detectConflicts
+ * @param records - The candidate records the LLM was shown
+ * @param pairs - Pairs returned by the LLM
+ * @returns The combined list
+ */
+export function addLlmConflicts(conflicts: Conflict[], records: MemoryRecord[], pairs: Array<{ a: string; b: string; reason: string }>): Conflict[] {
+  const byId = new Map(records.map((r) => [r.id, r]));
+  const key = (x: string, y: string) => [x, y].sort().join("|");
+  const seen = new Set(conflicts.map((c) => key(c.a.id, c.b.id)));
+  const out = conflicts.slice();
+  for (const p of pairs) {
+    const a = byId.get(p.a);
+    const b = byId.get(p.b);
+    if (!a || !b || a.id === b.id || seen.has(key(a.id, b.id))) continue;
+    seen.add(key(a.id, b.id));
+    const [older, newer] = Date.parse(a.createdAt) <= Date.parse(b.createdAt) ? [a, b] : [b, a];
+    out.push({ a: older, b: newer, reason: p.reason || "Flagged by LLM", method: "llm" });
+  }
+  return out;
+}
+
+/**
+ * Formats conflicts as markdown.
+ *
+ * @param conflicts - Conflicts to list
+ * @returns Markdown with one section per pair
+ */
+export function formatConflicts(conflicts: Conflict[]): string {
+  if (conflicts.length === 0) return "No conflicting memories found.";
+  const lines: string[] = [];
+  lines.push("## Possible Conflicts");
+  lines.push(`Found ${conflicts.length} ${conflicts.length === 1 ? "pair" : "pairs"} that may contradict each other:\n`);
+  conflicts.forEach((c, i) => {
+    lines.push(`### ${i + 1}. ${c.reason} (${c.method})`);
+    lines.push(`- \`${c.a.id}\` (${c.a.createdAt.slice(0, 10)}): ${c.a.text}`);
+    lines.push(`- \`${c.b.id}\` (${c.b.createdAt.slice(0, 10)}): ${c.b.text}`);
+    lines.push("");
+  });
+  lines.push("Resolve by editing or deleting one, or link the newer one with `supersedes`.");
+  return lines.join("\n");
+}
@@ -16,6 +16,9 @@
  * - CLI: `compress --query "topic" --llm`
  * - MCP: `memory_compress` with `llm: true`
  *
+ * Contradiction checks can also use the LLM (`conflicts --llm`,
+ * `memory_conflicts` with `llm: true`) on top of the deterministic rules.
+ *
  * If DEEPSEEK_API_KEY is not set, falls back to deterministic compression.
  *
  * @module deepseek
@@ -184,3 +187,62 @@ Transform these memories into focused guidance for the task above. Only include
   if (typeof content !== "string") throw new Error("DeepSeek response missing content.");
   return content.length > budgetChars ? content.slice(0, budgetChars) : content;
 }
+
+/**
+ * Asks DeepSeek to find contradicting memories.
+ *
+ * The model sees each memory's id and text and returns the pairs that
+ * disagree (e.g. "prefer tabs" and "prefer spaces"). Callers should merge the
+ * result with deterministic detection and ignore ids they did not send.
+ *
+ * @param cfg - DeepSeek API configuration
+ * @param memories - Memories to check (id and text)
+ * @returns Conflicting pairs of ids with a short reason
+ * @throws Error if API request fails or the response is not a JSON array
+ */
+export async function deepSeekConflicts(
+  cfg: DeepSeekConfig,
+  memories: Array<{ id: string; text: string }>
+): Promise<Array<{ a: string; b: string; reason: string }>> {
+  const url = cfg.baseUrl.replace(/\/$/, "") + "/chat/completions";
+
+  const system = [
+    "You review a developer's stored memories (preferences, decisions, conventions) for contradictions.",
+    "Report only pairs that cannot both be followed, not pairs that are merely related.",
+    'Respond with a JSON array only, no prose: [{"a": "<id>", "b": "<id>", "reason": "<under 80 characters>"}].',
+    "Respond with [] if there are none."
+  ].join(" ");
+
+  const body = {
+    model: cfg.model,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: memories.map((m) => `${m.id}: ${m.text}`).join("\n") }
+    ],
+    temperature: 0
+  };
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${cfg.apiKey}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`DeepSeek API error (${res.status}): ${text}`);
+  }
+
+  const data: any = await res.json();
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") throw new Error("DeepSeek response missing content.");
+  const json = content.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  const parsed: any = JSON.parse(json);
+  if (!Array.isArray(parsed)) throw new Error("DeepSeek conflict response is not a JSON array.");
+  return parsed
+    .filter((p) => p && typeof p.a === "string" && typeof p.b === "string")
+    .map((p) => ({ a: p.a, b: p.b, reason: typeof p.reason === "string" ? p.reason : "" }));
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Typo tolerance and stemming for keyword matching.
+ *
+ * Provides a light English stemmer (plurals, -ing, -ed) and a bounded
+ * edit-distance check, used to expand query tokens into nearby words from
+ * the store's keyword vocabulary. "migrations" finds "migration" and
+ * "postgress" finds "postgresql". Expansions are scored below exact matches
+ * by the rankers in memoryStore.ts.
+ *
+ * @module fuzzy
+ */
+
+/** A vocabulary word that approximately matches a query token */
+export type Expansion = {
+  /** The vocabulary word */
+  term: string;
+  /** How it matched: same stem, or within the edit-distance bound */
+  kind: "stem" | "typo";
+};
+
+/** Words shorter than this are never matched by edit distance */
+const MIN_TYPO_LENGTH = 4;
+
+/**
+ * Reduces an English word to a crude stem by stripping common suffixes.
+ * Deliberately light: it only needs to make inflections of the same word
+ * agree, not produce dictionary roots.
+ *
+ * @param word - Lowercase word
+ * @returns The stem
+ *
+ * @example
+ * stem("migrations") // "migration"
+ * stem("caching")    // "cach"
+ * stem("cached")     // "cach"
+ */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+  if (w.endsWith("ies") && w.length > 4) return w.slice(0, -3) + "y";
+  if (w.endsWith("sses")) return w.slice(0, -2);
+  if (/(?:ch|sh|x|z)es$/.test(w)) return w.slice(0, -2);
+  if (w.endsWith("s") && !/(?:ss|us|is)$/.test(w)) w = w.slice(0, -1);
+  if (w.endsWith("ing") && w.length > 5) w = w.slice(0, -3);
+  else if (w.endsWith("ed") && w.length > 4) w = w.slice(0, -2);
+  else if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+  // Undo doubled final consonant left by -ing/-ed ("running" -> "runn" -> "run")
+  if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1);
+  return w;
+}
+
+/**
+ * Maximum edit distance allowed for a word of this length.
+ * Short words must match exactly; longer words tolerate more typos.
+ */
+export function maxTypos(word: string): number {
+  if (word.length < MIN_TYPO_LENGTH) return 0;
+  return word.length <= 7 ? 1 : 2;
+}
+
+/**
+ * Levenshtein distance with early exit once it exceeds `max`.
+ *
+ * @param a - First word
+ * @param b - Second word
+ * @param max - Largest distance of interest
+ * @returns The distance, or max + 1 if it is larger than max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (cur[j] < rowMin) rowMin = cur[j];
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Finds vocabulary words that approximately match a query token.
+ * The token itself is never returned.
+ *
+ * @param tok - Lowercase query token
+ * @param vocab - Known words (keywords and tags across the store)
+ * @returns Stem and typo expansions
+ */
+export function expandToken(tok: string, vocab: Iterable<string>): Expansion[] {
+  const out: Expansion[] = [];
+  const s = stem(tok);
+  const max = maxTypos(tok);
+  for (const term of vocab) {
+    if (term === tok) continue;
+    if (stem(term) === s) out.push({ term, kind: "stem" });
+    else if (max > 0 && editDistance(tok, term, max) <= max) out.push({ term, kind: "typo" });
+  }
+  return out;
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Append-only operation journal for memory stores.
+ *
+ * Every write to a store is also appended, one JSON object per line, to a
+ * journal next to it (e.g. `.copilot-memory.journal.jsonl`): which records
+ * were added, updated, soft-deleted or purged, when, and by which process.
+ * Replaying the journal from the top rebuilds the store, and stopping the
+ * replay at a timestamp gives the store as it was at that moment, so even
+ * a purge can be undone.
+ *
+ * A journal starts with a snapshot of the store as it was when journaling
+ * began. Compaction replaces the whole journal with a fresh snapshot, after
+ * which earlier moments can no longer be reconstructed.
+ *
+ * @module journal
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { MemoryRecord } from "./memoryStore.js";
+
+/**
+ * What a journal entry records.
+ * - snapshot: the full record set (the journal's starting point)
+ * - add: a new record
+ * - update: a changed record (including restores)
+ * - delete: a soft-deleted record
+ * - purge: ids of records removed for good
+ */
+export type JournalOp = "snapshot" | "add" | "update" | "delete" | "purge";
+
+/**
+ * One line of the journal.
+ */
+export type JournalEntry = {
+  /** ISO timestamp of the write */
+  at: string;
+  op: JournalOp;
+  /** Who made the change: the tool's source ("cli", "mcp") or the script name */
+  by?: string;
+  /** Process id of the writer */
+  pid?: number;
+  /** The record after the change (add, update, delete) */
+  record?: MemoryRecord;
+  /** Removed ids (purge) */
+  ids?: string[];
+  /** Full record set (snapshot) */
+  records?: MemoryRecord[];
+};
+
+/**
+ * Result of replaying a journal.
+ */
+export type ReplayResult = {
+  /** Records as of the replay point, in store order */
+  records: MemoryRecord[];
+  /** Number of entries applied (the starting snapshot included) */
+  applied: number;
+  /** Timestamp of the last entry applied, if any */
+  lastAt?: string;
+};
+
+/** Resolves the journal path next to the memory file (`x.json` → `x.journal.jsonl`, `x.db` → `x.db.journal.jsonl`) */
+export function resolveJournalPath(memoryPath: string): string {
+  const ext = path.extname(memoryPath);
+  const base = ext.toLowerCase() === ".json" ? path.basename(memoryPath, ext) : path.basename(memoryPath);
+  return path.join(path.dirname(memoryPath), `${base}.journal.jsonl`);
+}
+
+/**
+ * Appends entries to a journal, creating it if needed.
+ *
+ * @param journalPath - Path to the journal
+ * @param entries - Entries to append, in order
+ */
+export function appendJournal(journalPath: string, entries: JournalEntry[]): void {
+  if (entries.length === 0) return;
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  fs.appendFileSync(journalPath, entries.map((e) => JSON.stringify(e)).join("\n") + "\n", { encoding: "utf-8" });
+}
+
+/**
+ * Reads every entry of a journal.
+ *
+ * A final line that does not parse is ignored, since it can only come from
+ * a write that was cut off; a bad line anywhere else is an error.
+ *
+ * @param journalPath - Path to the journal
+ * @returns Entries in order (empty if the journal does not exist)
+ * @throws Error if a line other than the last is not valid JSON
+ */
+export function readJournal(journalPath: string): JournalEntry[] {
+  if (!fs.existsSync(journalPath)) return [];
+  const lines = fs.readFileSync(journalPath, "utf-8").split("\n");
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  const out: JournalEntry[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    try {
+      out.push(JSON.parse(lines[i]) as JournalEntry);
+    } catch {
+      if (i === lines.length - 1) break;
+      throw new Error(`Invalid journal entry at line ${i + 1}: ${journalPath}`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Replaces a journal with a single snapshot entry (atomically).
+ *
+ * @param journalPath - Path to the journal
+ * @param snapshot - The snapshot entry to start the journal with
+ */
+export function writeSnapshot(journalPath: string, snapshot: JournalEntry): void {
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  const tmp = `${journalPath}.tmp.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
+  fs.writeFileSync(tmp, JSON.stringify(snapshot) + "\n", { encoding: "utf-8" });
+  fs.renameSync(tmp, journalPath);
+}
+
+/**
+ * Rebuilds the record set by applying journal entries in order.
+ *
+ * @param entries - Journal entries, oldest first
+ * @param until - Stop before the first entry later than this time (ms since epoch); default replays everything
+ * @returns The reconstructed records and how many entries were applied
+ * @throws Error if the journal starts after `until` (it was compacted or started later)
+ */
+export function replayJournal(entries: JournalEntry[], until?: number): ReplayResult {
+  if (until !== undefined && entries.length > 0 && Date.parse(entries[0].at) > until) {
+    throw new Error(`The journal starts at ${entries[0].at}; earlier states cannot be reconstructed.`);
+  }
+  let records: MemoryRecord[] = [];
+  let applied = 0;
+  let lastAt: string | undefined;
+  for (const e of entries) {
+    if (until !== undefined && Date.parse(e.at) > until) break;
+    if (e.op === "snapshot") records = (e.records || []).slice();
+    else if (e.op === "add" && e.record) records.push(e.record);
+    else if ((e.op === "update" || e.op === "delete") && e.record) {
+      const idx = records.findIndex((r) => r.id === e.record!.id);
+      if (idx >= 0) records[idx] = e.record;
+      else records.push(e.record);
+    } else if (e.op === "purge") {
+      const gone = new Set(e.ids || []);
+      records = records.filter((r) => !gone.has(r.id));
+    }
+    applied++;
+    lastAt = e.at;
+  }
+  return { records, applied, lastAt };
+}
@@ -6,18 +6,37 @@
  * best practices for MCP implementation including rich annotations, elicitations,
  * and comprehensive resource/prompt definitions.
  *
- * ## Tools (7)
- * - memory_write: Add a memory with optional tags (supports elicitation for tag selection)
+ * ## Tools (21)
+ * - memory_write: Add a memory with optional tags and kind (supports elicitation for tag selection)
+ * - memory_update: Edit a memory's text and/or tags in place (keeps id and createdAt)
+ * - memory_history: Show a memory's revision history (read-only)
+ * - memory_diff: Diff a past revision against the current text (read-only)
+ * - memory_rollback: Restore a past revision (recorded as a new revision)
+ * - memory_adr_write: Record a decision as a structured, numbered ADR
+ * - memory_adr_update: Edit individual ADR fields (title, status, context, ...)
+ * - memory_link: Link memories (supersedes, relates_to, contradicts) or remove a link
+ * - memory_pin: Pin a memory into every compressed context, or unpin it
+ * - memory_renew: Set, extend or clear a memory's expiry
  * - memory_search: Search with relevance scoring (read-only, idempotent)
  * - memory_compress: Budget-constrained context compression (read-only)
+ * - memory_conflicts: Find memories that contradict each other (read-only, optional LLM)
  * - memory_delete: Soft-delete by ID (tombstone, reversible)
+ * - memory_restore: Undelete a soft-deleted memory by ID
  * - memory_purge: Hard-delete by criteria (destructive, supports confirmation elicitation)
+ * - memory_gc: Hard-delete tombstones older than the retention window (destructive)
+ * - memory_backups: List the automatic backups taken before destructive operations (read-only)
+ * - memory_restore_backup: Replace the store's records with a backup (the current records are backed up first)
  * - memory_export: Export raw JSON (read-only)
  * - inject_context: Auto-inject shaped context for a task (read-only, uses DeepSeek LLM)
  *
- * ## Resources (2)
+ * ## Resources (7)
  * - memory://stats: Live statistics about the memory store
  * - memory://recent: Last 10 memories for quick reference
+ * - memory://trash: Soft-deleted memories that can still be restored
+ * - memory://pinned: Memories included first in every compressed context
+ * - memory://expiring: Memories with an expiry, expired ones first, for renewal
+ * - memory://adr: All ADRs in number order with their status
+ * - memory://graph/{id}: A memory's linked neighbours (template)
  *
  * ## Prompts (3)
  * - summarize-memories: Generate topic summary from stored memories
@@ -27,6 +46,7 @@
  * ## Elicitations
  * - memory_purge: Requests user confirmation before permanent deletion
  * - memory_write: Offers existing tags for selection (when tags exist)
+ * - memory_write: Offers to skip, merge or save anyway when the text looks like a duplicate
  *
  * @module mcp-server
  * @version 0.3.0
@@ -35,11 +55,13 @@
 
 import "dotenv/config";
 import process from "node:process";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { addMemory, compressDeterministic, computeStats, exportJson, formatSearchResults, loadStore, purge, search, softDeleteById } from "./memoryStore.js";
-import { deepSeekCompress, deepSeekShape } from "./deepseek.js";
+import { addAdr, addMemory, compressDeterministic, computeStats, conflictCandidates, diffRevision, exportJson, findConflicts, findDuplicates, findMemory, formatGraph, formatStoreLocation, formatHistory, formatSearchResults, gcTombstones, linkMemories, listBackups, expiringMemories, isExpired, loadStore, locateStore, maybeAutoGc, normalizeTags, pinnedMemories, purge, restoreBackup, restoreById, rollbackMemory, scopePath, search, setExpiry, setPinned, softDeleteById, updateAdr, updateMemory } from "./memoryStore.js";
+import { adrLabel, formatAdr } from "./adr.js";
+import { MAX_LLM_CONFLICT_MEMORIES, addLlmConflicts, formatConflicts } from "./conflicts.js";
+import { deepSeekCompress, deepSeekConflicts, deepSeekShape } from "./deepseek.js";
 
 /**
  * Logs a message to stderr (stdout is reserved for JSON-RPC).
@@ -69,19 +91,25 @@ A persistent memory system for AI assistants. Use this to remember decisions,
 preferences, patterns, and context across conversations.
 
 ## Quick Start
-- **Save something**: Use \`memory_write\` with text and optional tags
+- **Save something**: Use \`memory_write\` with text, optional tags, and a kind (decision, preference, convention, episode, todo)
+- **Record a decision**: Use \`memory_adr_write\` for a structured, numbered ADR; browse them via \`memory://adr\`
 - **Find memories**: Use \`memory_search\` with a query
 - **Get context**: Use \`inject_context\` before starting a task
 
 ## Best Practices
-- Tag memories for better organization (e.g., "architecture", "preference", "decision")
+- Tag memories for better organization (e.g., "architecture", "api", "testing") and set a kind for decisions, preferences, conventions, episodes and todos
 - Use \`inject_context\` at the start of tasks to retrieve relevant context
+- Give short-lived memories (a code freeze, a sprint goal) an \`expires\` TTL or date; review \`memory://expiring\` to renew them
+- Check \`memory_conflicts\` when memories disagree; compressed context also warns about conflicting memories it includes
+- Pin memories that must always apply (e.g., accessibility needs) with \`memory_pin\`; they lead every compressed context
+- Save things that hold across projects (personal preferences) with \`scope: "global"\`; search and context include both layers, each hit labelled with its layer
 - Periodically review with \`memory://stats\` and \`memory://recent\` resources
+- Purge, gc and dedupe back up the store first; undo one with \`memory_backups\` and \`memory_restore_backup\`
 
 ## Elicitation Support
 Some tools support interactive elicitation:
 - \`memory_purge\`: Will ask for confirmation before permanent deletion
-- \`memory_write\`: May suggest existing tags for consistency
+- \`memory_write\`: May suggest existing tags for consistency, and asks whether to skip, merge or save a near-duplicate
 
 Not all MCP clients support elicitation - tools will still work without it.
     `.trim()
@@ -100,6 +128,10 @@ Not all MCP clients support elicitation - tools will still work without it.
  *
  * **Elicitation**: When existing tags are available and the client supports
  * elicitation, the user may be offered a selection of existing tags for consistency.
+ * When the text closely matches an existing memory, the user is asked whether
+ * to skip it, merge its tags into the existing memory, or save it anyway
+ * (unless onDuplicate says what to do). Without elicitation it is saved and
+ * the likely duplicates are listed.
  *
  * @example
  * // Simple memory
@@ -107,6 +139,15 @@ Not all MCP clients support elicitation - tools will still work without it.
  *
  * // Memory with tags
  * memory_write({ text: "API uses REST conventions", tags: ["architecture", "api"] })
+ *
+ * // Typed memory
+ * memory_write({ text: "We chose PostgreSQL for ACID compliance", kind: "decision" })
+ *
+ * // Temporary memory
+ * memory_write({ text: "Code freeze on main until the 2.0 release", expires: "2026-11-01" })
+ *
+ * // Memory shared across projects
+ * memory_write({ text: "I prefer tabs over spaces", kind: "preference", scope: "global" })
  */
 server.registerTool(
   "memory_write",
@@ -115,8 +156,12 @@ server.registerTool(
     description: "Add, save, store, or remember information to the project memory. Use this when the user wants to remember something, save a preference, store a decision, or add a note for later. Keywords: add, save, store, remember, note, record, keep.",
     inputSchema: {
       text: z.string().min(1).describe("The memory text to store. Be descriptive - this will be searchable later."),
-      tags: z.array(z.string()).optional().describe("Optional tags for categorization (e.g., 'decision', 'preference', 'architecture'). Helps with organization and filtering."),
-      suggestTags: z.boolean().optional().describe("If true and elicitation is supported, suggest existing tags to choose from.")
+      tags: z.array(z.string()).optional().describe("Optional tags for categorization (e.g., 'architecture', 'api', 'testing'). Helps with organization and filtering."),
+      kind: z.enum(["preference", "decision", "convention", "episode", "todo"]).optional().describe("What sort of memory this is: 'decision' (ADR / design choice), 'preference' (how the user likes things done), 'convention' (team rule), 'episode' (something that happened), or 'todo' (follow-up work). Typed memories are grouped by kind in compressed context."),
+      expires: z.string().optional().describe("Optional expiry for memories that are only valid for a while: a TTL like '14d', '12h', '2w' or a date like '2026-11-01'. Expired memories drop out of search and context."),
+      suggestTags: z.boolean().optional().describe("If true and elicitation is supported, suggest existing tags to choose from."),
+      onDuplicate: z.enum(["skip", "merge", "save"]).optional().describe("What to do if a near-identical memory already exists in the target store: 'skip' (don't save), 'merge' (add these tags to the existing memory), or 'save' (store anyway). If omitted, the user is asked when elicitation is supported."),
+      scope: z.enum(["project", "global"]).default("project").describe("Which store to write to: 'project' (default) for this project, or 'global' for things that hold across all projects (e.g., personal preferences).")
     },
     annotations: {
       title: "Write Memory",
@@ -181,22 +226,532 @@ server.registerTool(
       }
     }
 
-    const rec = await addMemory({ text, tags });
-    const tagInfo = rec.tags.length > 0 ? ` with tags [${rec.tags.join(", ")}]` : "";
+    let memoryPath: string;
+    try {
+      memoryPath = scopePath(args.scope);
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+
+    // Check for near-duplicates before writing, in the target layer only, so a merge never touches another layer
+    const similar = findDuplicates(loadStore(memoryPath).records, text);
+    let onDuplicate = args.onDuplicate;
+    if (similar.length > 0 && !onDuplicate) {
+      try {
+        const best = similar[0];
+        const result = await server.server.elicitInput({
+          mode: "form",
+          message: `This looks like an existing memory (${Math.round(best.similarity * 100)}% similar):\n\n> ${best.text}\n\nWhat should happen to the new one?`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              action: {
+                type: "string",
+                title: "Action",
+                description: "skip: don't save it; merge: add its tags to the existing memory; save: store it anyway",
+                enum: ["skip", "merge", "save"],
+                default: "skip"
+              }
+            },
+            required: ["action"]
+          }
+        });
+        onDuplicate = result.action === "accept" ? (result.content?.action as "skip" | "merge" | "save") ?? "skip" : "skip";
+      } catch {
+        // Elicitation not supported - save and report the duplicates
+        log("Elicitation not available for duplicate check, saving anyway");
+      }
+    }
+
+    if (similar.length > 0 && onDuplicate === "skip") {
+      return { content: [{ type: "text", text: `⏭️ Not saved: already stored as ${similar[0].id}\n\n> ${similar[0].text}` }] };
+    }
+    if (similar.length > 0 && onDuplicate === "merge") {
+      const target = loadStore(memoryPath).records.find((r) => r.id === similar[0].id)!;
+      const merged = normalizeTags([...target.tags, ...(tags || [])]);
+      if (merged.length !== target.tags.length) await updateMemory({ memoryPath, id: target.id, tags: merged, source: "mcp" });
+      return { content: [{ type: "text", text: `🧬 Merged into ${target.id}${merged.length ? ` with tags [${merged.join(", ")}]` : ""}\n\n> ${target.text}` }] };
+    }
+
+    let res;
+    try {
+      res = await addMemory({ memoryPath, text, tags, kind: args.kind, expires: args.expires });
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+    const rec = res.record;
+    const tagInfo = (args.scope === "global" ? " to the global store" : "") + (rec.kind ? ` as ${rec.kind}` : "") + (rec.tags.length > 0 ? ` with tags [${rec.tags.join(", ")}]` : "")
+      + (rec.expiresAt ? `, expiring ${rec.expiresAt.slice(0, 10)}` : "");
+    const dupInfo = res.duplicates.length > 0
+      ? `\n\n⚠️ Possible duplicates:\n${res.duplicates.slice(0, 3).map((d) => `- ${d.id} (${Math.round(d.similarity * 100)}%): ${d.text}`).join("\n")}`
+      : "";
     return {
       content: [{
         type: "text",
-        text: `✓ Memory saved (${rec.id})${tagInfo}\n\nKeywords extracted: ${rec.keywords.slice(0, 5).join(", ")}${rec.keywords.length > 5 ? "..." : ""}`
+        text: `✓ Memory saved (${rec.id})${tagInfo}\n\nKeywords extracted: ${rec.keywords.slice(0, 5).join(", ")}${rec.keywords.length > 5 ? "..." : ""}${dupInfo}`
       }]
     };
   }
 );
 
+/**
+ * Tool: memory_update
+ *
+ * Edits an existing memory in place. The id and createdAt are preserved,
+ * keywords are re-extracted when the text changes, and updatedAt is bumped.
+ *
+ * @example
+ * // Fix a typo
+ * memory_update({ id: "m_20241213T150000000Z_abc123", text: "Use PostgreSQL 16" })
+ *
+ * // Retag a memory
+ * memory_update({ id: "m_20241213T150000000Z_abc123", tags: ["decision", "database"] })
+ */
+server.registerTool(
+  "memory_update",
+  {
+    title: "Update Memory",
+    description: "Edit, update, correct, or refine an existing memory by ID without losing its history. Replaces the text and/or tags; at least one must be provided. An unknown ID is returned as an error. Keywords: edit, update, change, fix, correct, refine, retag.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID to update (e.g., 'm_20241213T150000000Z_abc123')."),
+      text: z.string().min(1).optional().describe("Replacement memory text. Keywords are re-extracted automatically."),
+      tags: z.array(z.string()).optional().describe("Replacement tags. Pass an empty array to clear all tags.")
+    },
+    annotations: {
+      title: "Update Memory",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,  // Each edit adds a revision and bumps updatedAt
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const text = typeof args.text === "string" ? args.text : undefined;
+    const tags = Array.isArray(args.tags) ? args.tags.map((t) => String(t)) : undefined;
+
+    if (text === undefined && tags === undefined) {
+      return {
+        content: [{ type: "text", text: "Error: provide new text and/or tags to update." }],
+        isError: true
+      };
+    }
+
+    try {
+      const res = await updateMemory({ id, text, tags, source: "mcp" });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+      }
+
+      const rec = res.record;
+      const tagInfo = rec.tags.length > 0 ? ` with tags [${rec.tags.join(", ")}]` : "";
+      return {
+        content: [{
+          type: "text",
+          text: `✓ Memory updated (${rec.id})${tagInfo}\n\n> ${rec.text}`
+        }]
+      };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_history
+ *
+ * Shows every revision of a memory, newest first, with timestamps and the
+ * source of each change. Useful for seeing how a decision evolved.
+ *
+ * This is a **read-only** operation that does not modify the store.
+ *
+ * @example
+ * memory_history({ id: "m_20241213T150000000Z_abc123" })
+ */
+server.registerTool(
+  "memory_history",
+  {
+    title: "Memory History",
+    description: "Show the revision history of a memory by ID: every prior version of its text and tags, when it changed, and where the change came from. An unknown ID or ADR reference is returned as an error. Keywords: history, revisions, versions, changes, evolved, audit.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID or ADR reference (e.g., 'ADR-3') to show history for.")
+    },
+    annotations: {
+      title: "Memory History",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const rec = findMemory(loadStore().records, id);
+    if (!rec) {
+      return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+    }
+    return { content: [{ type: "text", text: formatHistory(rec) }] };
+  }
+);
+
+/**
+ * Tool: memory_diff
+ *
+ * Compares a past revision of a memory with its current state using a
+ * word-level diff (removed words as [-word-], added words as {+word+}).
+ *
+ * This is a **read-only** operation that does not modify the store.
+ *
+ * @example
+ * memory_diff({ id: "m_20241213T150000000Z_abc123", rev: 1 })
+ */
+server.registerTool(
+  "memory_diff",
+  {
+    title: "Diff Memory Revision",
+    description: "Compare a past revision of a memory with its current text and tags. Use memory_history first to find revision numbers. An unknown ID or ADR reference is returned as an error. Keywords: diff, compare, changed, difference.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID or ADR reference (e.g., 'ADR-3') to diff."),
+      rev: z.number().int().min(1).describe("Revision number to compare against the current state.")
+    },
+    annotations: {
+      title: "Diff Memory Revision",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const rev = Number(args.rev);
+    const rec = findMemory(loadStore().records, id);
+    if (!rec) {
+      return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+    }
+    try {
+      return { content: [{ type: "text", text: diffRevision(rec, rev) }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_rollback
+ *
+ * Restores a memory's text and tags from an earlier revision. The rollback
+ * is recorded as a new revision, so it is itself reversible.
+ *
+ * @example
+ * memory_rollback({ id: "m_20241213T150000000Z_abc123", rev: 2 })
+ */
+server.registerTool(
+  "memory_rollback",
+  {
+    title: "Roll Back Memory",
+    description: "Restore a memory to an earlier revision. The rollback is recorded as a new revision, so nothing is lost. An unknown ID is returned as an error. Keywords: rollback, revert, undo, restore version.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID to roll back."),
+      rev: z.number().int().min(1).describe("Revision number to restore.")
+    },
+    annotations: {
+      title: "Roll Back Memory",
+      readOnlyHint: false,
+      destructiveHint: false, // Previous state is kept in history
+      idempotentHint: false,  // Each rollback adds a revision
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const rev = Number(args.rev);
+    try {
+      const res = await rollbackMemory({ id, rev, source: "mcp" });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `⏪ Rolled back ${id} to r${rev}\n\n> ${res.record.text}`
+        }]
+      };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_adr_write
+ *
+ * Records a decision as a structured ADR memory. Title, context, decision
+ * and consequences are stored as separate fields, the ADR gets the next
+ * number, and the memory's kind is "decision".
+ *
+ * @example
+ * memory_adr_write({
+ *   title: "Use PostgreSQL for persistence",
+ *   context: "We need ACID transactions for billing data",
+ *   decision: "PostgreSQL 16 on managed hosting",
+ *   consequences: "Schema migrations need review"
+ * })
+ */
+server.registerTool(
+  "memory_adr_write",
+  {
+    title: "Write ADR",
+    description: "Record an architecture or design decision as a structured ADR (Architecture Decision Record) with title, context, decision, consequences, status and an auto-assigned number. Use this instead of memory_write for decisions. Keywords: decision, ADR, decided, chose, architecture.",
+    inputSchema: {
+      title: z.string().min(1).describe("Short title for the decision (e.g., 'Use PostgreSQL for persistence')."),
+      context: z.string().min(1).describe("Why the decision was needed - the problem or forces at play."),
+      decision: z.string().min(1).describe("What was decided."),
+      consequences: z.string().optional().describe("Resulting trade-offs or follow-ups (optional but recommended)."),
+      status: z.enum(["proposed", "accepted", "superseded"]).default("accepted").describe("Where the decision stands (default 'accepted')."),
+      tags: z.array(z.string()).optional().describe("Optional tags (e.g., 'database', 'architecture')."),
+      scope: z.enum(["project", "global"]).default("project").describe("Which store to write to: 'project' (default) or 'global' (shared across projects).")
+    },
+    annotations: {
+      title: "Write ADR",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    try {
+      const rec = await addAdr({
+        memoryPath: scopePath(args.scope),
+        title: args.title,
+        context: args.context,
+        decision: args.decision,
+        consequences: args.consequences,
+        status: args.status,
+        tags: Array.isArray(args.tags) ? args.tags.map((t) => String(t)) : undefined
+      });
+      return {
+        content: [{
+          type: "text",
+          text: `✓ ${adrLabel(rec.adr!.number)} recorded (${rec.id})\n\n${formatAdr(rec)}`
+        }]
+      };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_adr_update
+ *
+ * Edits individual fields of an ADR - for example marking it accepted or
+ * superseded - without rewriting the rest. The change is recorded as a new
+ * revision.
+ *
+ * @example
+ * memory_adr_update({ id: "ADR-3", status: "superseded" })
+ * memory_adr_update({ id: "m_20241213T150000000Z_abc123", consequences: "Needs a read replica" })
+ */
+server.registerTool(
+  "memory_adr_update",
+  {
+    title: "Update ADR",
+    description: "Edit fields of an existing ADR by memory ID or ADR number: change its status (proposed, accepted, superseded), title, context, decision or consequences. Only the given fields change. An unknown ID or ADR reference is returned as an error. Keywords: update decision, accept, supersede, ADR status.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID or ADR reference (e.g., 'ADR-3' or '3')."),
+      title: z.string().min(1).optional().describe("New title."),
+      status: z.enum(["proposed", "accepted", "superseded"]).optional().describe("New status."),
+      context: z.string().min(1).optional().describe("New context."),
+      decision: z.string().min(1).optional().describe("New decision."),
+      consequences: z.string().optional().describe("New consequences. Pass an empty string to clear them."),
+      tags: z.array(z.string()).optional().describe("Replacement tags.")
+    },
+    annotations: {
+      title: "Update ADR",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,  // Each edit adds a revision and bumps updatedAt
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    try {
+      const res = await updateAdr({
+        id,
+        title: args.title,
+        status: args.status,
+        context: args.context,
+        decision: args.decision,
+        consequences: args.consequences,
+        tags: Array.isArray(args.tags) ? args.tags.map((t) => String(t)) : undefined,
+        source: "mcp"
+      });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ ADR not found: ${id}` }], isError: true };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `✏️ ${adrLabel(res.record.adr!.number)} updated\n\n${formatAdr(res.record)}`
+        }]
+      };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_link
+ *
+ * Adds (or removes) a typed link between two memories. A `supersedes` link
+ * demotes the older memory in search and drops it from compressed context,
+ * so a replaced decision stops competing with its replacement.
+ *
+ * @example
+ * // The GraphQL decision replaces the REST one
+ * memory_link({ from: "m_..._graphql", type: "supersedes", to: "m_..._rest" })
+ *
+ * // Remove a link
+ * memory_link({ from: "ADR-4", type: "relates_to", to: "ADR-2", remove: true })
+ */
+server.registerTool(
+  "memory_link",
+  {
+    title: "Link Memories",
+    description: "Link two memories: 'supersedes' (the first replaces the second, which is then demoted in search and left out of injected context), 'relates_to', or 'contradicts'. Set remove to delete a link. An unknown ID or ADR reference is returned as an error. Keywords: link, supersede, replace, relate, contradict, connect.",
+    inputSchema: {
+      from: z.string().min(1).describe("Source memory ID or ADR reference (e.g., 'ADR-4')."),
+      type: z.enum(["supersedes", "relates_to", "contradicts"]).describe("How the source relates to the target."),
+      to: z.string().min(1).describe("Target memory ID or ADR reference."),
+      remove: z.boolean().default(false).describe("Remove this link instead of adding it.")
+    },
+    annotations: {
+      title: "Link Memories",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,   // Adding an existing link is a no-op
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const from = String(args.from ?? "").trim();
+    const to = String(args.to ?? "").trim();
+    try {
+      const res = await linkMemories({ from, to, type: args.type, remove: Boolean(args.remove), source: "mcp" });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${from} or ${to}` }], isError: true };
+      }
+      const verb = args.remove ? (res.changed ? "Removed link" : "No such link") : (res.changed ? "Linked" : "Already linked");
+      return {
+        content: [{
+          type: "text",
+          text: `🔗 ${verb}: ${from} ${args.type} ${to}\n\n${formatGraph(loadStore().records, res.record)}`
+        }]
+      };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_pin
+ *
+ * Pins a memory so it is placed first in every `memory_compress` and
+ * `inject_context` result, whatever the query. Pinned memories count
+ * against the budget. Set pinned to false to unpin.
+ *
+ * @example
+ * memory_pin({ id: "m_20241213T150000000Z_abc123" })
+ * memory_pin({ id: "ADR-2", pinned: false })
+ */
+server.registerTool(
+  "memory_pin",
+  {
+    title: "Pin Memory",
+    description: "Pin a memory so it is always included first in compressed/injected context (e.g., accessibility needs, hard constraints), or unpin it with pinned=false. See the memory://pinned resource. An unknown ID or ADR reference is returned as an error. Keywords: pin, unpin, always include, sticky, important.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID or ADR reference (e.g., 'ADR-2')."),
+      pinned: z.boolean().default(true).describe("true to pin, false to unpin.")
+    },
+    annotations: {
+      title: "Pin Memory",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,   // Pinning a pinned memory is a no-op
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const pinned = args.pinned !== false;
+    try {
+      const res = await setPinned({ id, pinned });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+      }
+      const verb = pinned ? (res.changed ? "Pinned" : "Already pinned") : (res.changed ? "Unpinned" : "Not pinned");
+      return { content: [{ type: "text", text: `📌 ${verb}: ${res.record.id}\n\n> ${res.record.text}` }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
+/**
+ * Tool: memory_renew
+ *
+ * Sets a new expiry on a memory (bringing an expired one back into search
+ * and context), or clears it with "never".
+ *
+ * @example
+ * memory_renew({ id: "m_20241213T150000000Z_abc123", expires: "14d" })
+ * memory_renew({ id: "m_20241213T150000000Z_abc123", expires: "never" })
+ */
+server.registerTool(
+  "memory_renew",
+  {
+    title: "Renew Memory",
+    description: "Renew an expiring or expired memory with a new TTL or date, or make it permanent with 'never'. See the memory://expiring resource for candidates. An unknown ID or ADR reference is returned as an error. Keywords: renew, extend, expire, ttl, keep, permanent.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID or ADR reference."),
+      expires: z.string().min(1).describe("A TTL like '14d', '12h', '2w', a date like '2026-11-01', or 'never' to remove the expiry.")
+    },
+    annotations: {
+      title: "Renew Memory",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,  // A TTL counts from now
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    const raw = String(args.expires ?? "").trim();
+    try {
+      const res = await setExpiry({ id, expires: raw.toLowerCase() === "never" ? null : raw });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+      }
+      const when = res.record.expiresAt ? `now expires ${res.record.expiresAt}` : "no longer expires";
+      return { content: [{ type: "text", text: `⏳ ${res.record.id} ${when}\n\n> ${res.record.text}` }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
 /**
  * Tool: memory_search
  *
  * Searches memories by keyword query with relevance scoring. Results are
- * ranked by keyword matches, tag matches, and recency.
+ * ranked by keyword matches, tag matches, and recency (legacy ranker), by
+ * BM25 with whole-token matching and per-field weights (bm25 ranker), or by
+ * BM25 blended with local vector similarity (hybrid ranker).
  *
  * This is a **read-only** operation that does not modify the store.
  *
@@ -206,6 +761,13 @@ server.registerTool(
  *
  * // Get raw JSON for programmatic processing
  * memory_search({ query: "API design", raw: true, limit: 5 })
+ *
+ * // Structured filters: tags, kinds, phrases, negation, dates
+ * memory_search({ query: 'tag:architecture -tag:deprecated "event sourcing" after:2025-01-01' })
+ * memory_search({ query: "kind:todo auth" })
+ *
+ * // Length-normalized ranking that favors tag matches
+ * memory_search({ query: "testing", ranker: "bm25", weights: { tags: 3 } })
  */
 server.registerTool(
   "memory_search",
@@ -213,9 +775,17 @@ server.registerTool(
     title: "Search Memories",
     description: "Search, find, recall, or look up information from project memory. Use this when the user asks what they stored, wants to find a memory, recall a decision, look up preferences, or asks 'what do I have about X'. Keywords: search, find, recall, lookup, what, show, list, get.",
     inputSchema: {
-      query: z.string().min(1).describe("Search query - matches against memory text, keywords, and tags."),
+      query: z.string().min(1).describe("Search query - matches against memory text, keywords, and tags. Supports filters: tag:x, -tag:x, kind:decision|preference|convention|episode|todo, -kind:x, \"exact phrase\", -word, after:YYYY-MM-DD, before:YYYY-MM-DD, id:m_..."),
       limit: z.number().min(1).max(50).default(10).describe("Maximum results to return (1-50, default 10)."),
-      raw: z.boolean().default(false).describe("Return raw JSON instead of formatted markdown. Useful for programmatic processing.")
+      raw: z.boolean().default(false).describe("Return raw JSON instead of formatted markdown. Useful for programmatic processing."),
+      ranker: z.enum(["legacy", "bm25", "hybrid"]).default("legacy").describe("Ranking algorithm: 'legacy' (substring hits + tag/keyword bonuses + recency), 'bm25' (length-normalized, whole-word matching), or 'hybrid' (bm25 blended with local vector similarity; finds spelling variants and related word forms)."),
+      weights: z.object({
+        text: z.number().min(0).optional(),
+        tags: z.number().min(0).optional(),
+        keywords: z.number().min(0).optional()
+      }).optional().describe("BM25 field weights (defaults: text 1, tags 2, keywords 1.5). Ignored by the legacy ranker."),
+      semanticWeight: z.number().min(0).max(1).optional().describe("Hybrid ranker only: share of the score from vector similarity (0-1, default 0.5)."),
+      fuzzy: z.boolean().default(true).describe("Also match word stems and small typos (e.g. 'migrations' finds 'migration', 'postgress' finds 'postgresql'), scored below exact matches. Set false for exact matching only.")
     },
     annotations: {
       title: "Search Memories",
@@ -230,7 +800,12 @@ server.registerTool(
     const limit = Number.isFinite(args.limit) ? Number(args.limit) : 10;
     const raw = Boolean(args.raw);
     const loaded = loadStore();
-    const hits = search(loaded.records, q, limit);
+    let hits;
+    try {
+      hits = search(loaded.records, q, limit, { ranker: args.ranker, weights: args.weights, semanticWeight: args.semanticWeight, fuzzy: args.fuzzy });
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
 
     if (raw) {
       return { content: [{ type: "text", text: JSON.stringify({ matches: hits.length, hits }, null, 2) }] };
@@ -262,9 +837,10 @@ server.registerTool(
     title: "Compress Context",
     description: "Create a compact Markdown context block from relevant memories, constrained to a character budget. Ideal for injecting context into LLM prompts.",
     inputSchema: {
-      query: z.string().min(1).describe("Search query to find relevant memories."),
+      query: z.string().min(1).describe("Search query to find relevant memories. Supports filters: tag:x, -tag:x, kind:decision|preference|convention|episode|todo, -kind:x, \"exact phrase\", -word, after:YYYY-MM-DD, before:YYYY-MM-DD, id:m_..."),
       budget: z.number().min(200).max(8000).default(1200).describe("Character budget for output (200-8000, default 1200)."),
       limit: z.number().min(1).max(50).default(25).describe("Max memories to consider before compression (1-50, default 25)."),
+      ranker: z.enum(["legacy", "bm25", "hybrid"]).default("legacy").describe("Ranking algorithm used to pick memories. 'hybrid' also matches spelling variants via local vectors."),
       llm: z.boolean().default(false).describe("Use DeepSeek LLM for smarter compression. Requires DEEPSEEK_API_KEY env var.")
     },
     annotations: {
@@ -282,8 +858,12 @@ server.registerTool(
     const llm = Boolean(args.llm);
 
     const loaded = loadStore();
-    const det = compressDeterministic({ records: loaded.records, query, budget, limit });
-    let md = det.markdown;
+    let md;
+    try {
+      md = compressDeterministic({ records: loaded.records, query, budget, limit, ranker: args.ranker }).markdown;
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
 
     if (llm) {
       const key = (process.env.DEEPSEEK_API_KEY || "").trim();
@@ -298,12 +878,69 @@ server.registerTool(
   }
 );
 
+/**
+ * Tool: memory_conflicts
+ *
+ * Finds live memories that probably contradict each other, such as
+ * "prefer tabs" and "prefer spaces", using deterministic rules (see
+ * conflicts.ts). With llm=true and DEEPSEEK_API_KEY set, pairs found by the
+ * LLM are added.
+ *
+ * This is a **read-only** operation that does not modify the store.
+ *
+ * @example
+ * memory_conflicts({})
+ * memory_conflicts({ llm: true })
+ */
+server.registerTool(
+  "memory_conflicts",
+  {
+    title: "Find Conflicting Memories",
+    description: "Find stored preferences, decisions and conventions that contradict each other (e.g. 'prefer tabs' vs 'prefer spaces', 'use X' vs 'avoid X'). Resolve them by editing, deleting, or linking the newer one with 'supersedes'. Keywords: conflicts, contradictions, inconsistent, disagree, clash.",
+    inputSchema: {
+      llm: z.boolean().default(false).describe("Also ask the DeepSeek LLM to find contradictions. Requires DEEPSEEK_API_KEY env var.")
+    },
+    annotations: {
+      title: "Find Conflicting Memories",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const loaded = loadStore();
+    let conflicts = findConflicts(loaded.records);
+    let note = "";
+
+    if (args.llm) {
+      const key = (process.env.DEEPSEEK_API_KEY || "").trim();
+      if (key) {
+        const baseUrl = (process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com").trim();
+        const model = (process.env.DEEPSEEK_MODEL || "deepseek-chat").trim();
+        const candidates = conflictCandidates(loaded.records).slice(-MAX_LLM_CONFLICT_MEMORIES);
+        try {
+          const pairs = await deepSeekConflicts({ baseUrl, apiKey: key, model }, candidates.map((r) => ({ id: r.id, text: r.text })));
+          conflicts = addLlmConflicts(conflicts, candidates, pairs);
+        } catch (err) {
+          log(`DeepSeek conflict check failed, using deterministic rules: ${err instanceof Error ? err.message : String(err)}`);
+          note = "\n\n_LLM check failed; showing deterministic results only._";
+        }
+      } else {
+        note = "\n\n_DeepSeek not configured; showing deterministic results only._";
+      }
+    }
+
+    return { content: [{ type: "text", text: formatConflicts(conflicts) + note }] };
+  }
+);
+
 /**
  * Tool: memory_delete
  *
  * Soft-deletes a memory by ID (sets deletedAt timestamp). The record remains
  * in the store but is excluded from searches. This is **reversible** - the
- * memory can be recovered by editing the JSON file directly.
+ * memory can be recovered with `memory_restore`.
  *
  * For permanent deletion, use `memory_purge` instead.
  *
@@ -314,7 +951,7 @@ server.registerTool(
   "memory_delete",
   {
     title: "Delete Memory (Soft)",
-    description: "Soft-delete a memory by ID (tombstone). The memory is marked as deleted but remains in storage and can be recovered. Use memory_purge for permanent deletion.",
+    description: "Soft-delete a memory by ID (tombstone). The memory is marked as deleted but remains in storage and can be recovered with memory_restore. Use memory_purge for permanent deletion. An unknown ID is returned as an error.",
     inputSchema: {
       id: z.string().min(1).describe("Memory ID to soft-delete (e.g., 'mem_abc123').")
     },
@@ -329,22 +966,63 @@ server.registerTool(
   async (args) => {
     const id = String(args.id ?? "").trim();
     const res = await softDeleteById({ id });
+    if (!res.found) {
+      return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+    }
     return {
       content: [{
         type: "text",
-        text: res.found
-          ? `✓ Soft-deleted memory ${id}\n\nThe memory is now hidden from searches but can be recovered from the JSON file.`
-          : `✗ Memory not found: ${id}`
+        text: `✓ Soft-deleted memory ${id}\n\nThe memory is now hidden from searches but can be recovered with \`memory_restore\`.`
       }]
     };
   }
 );
 
+/**
+ * Tool: memory_restore
+ *
+ * Restores a soft-deleted memory by clearing its deletedAt tombstone, making
+ * it visible to searches again. Browse `memory://trash` to find deleted IDs.
+ *
+ * @example
+ * memory_restore({ id: "m_20241213T150000000Z_abc123" })
+ */
+server.registerTool(
+  "memory_restore",
+  {
+    title: "Restore Memory",
+    description: "Restore (undelete) a soft-deleted memory by ID so it appears in searches again. See the memory://trash resource for deleted memories. An unknown ID is returned as an error. Keywords: restore, undelete, recover, undo delete.",
+    inputSchema: {
+      id: z.string().min(1).describe("Memory ID to restore (e.g., 'm_20241213T150000000Z_abc123').")
+    },
+    annotations: {
+      title: "Restore Memory",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,   // Restoring same ID twice has same effect
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const id = String(args.id ?? "").trim();
+    try {
+      const res = await restoreById({ id });
+      if (!res.found || !res.record) {
+        return { content: [{ type: "text", text: `✗ Memory not found: ${id}` }], isError: true };
+      }
+      return { content: [{ type: "text", text: `✓ Restored memory ${id}\n\n> ${res.record.text}` }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
 /**
  * Tool: memory_purge
  *
  * Hard-deletes memories matching criteria (permanently removes from file).
- * This is a **DESTRUCTIVE** operation that cannot be undone!
+ * This is a **DESTRUCTIVE** operation; the store is backed up first (see
+ * memory_backups), so it can be undone with memory_restore_backup.
  *
  * **Elicitation**: When the client supports elicitation and this is not a
  * dry-run, the user will be asked to confirm before deletion proceeds.
@@ -360,7 +1038,7 @@ server.registerTool(
   "memory_purge",
   {
     title: "Purge Memories (Hard Delete)",
-    description: "PERMANENTLY delete memories by id, tag, or substring match. This is destructive and cannot be undone! Use dryRun: true to preview first. Will request confirmation via elicitation if supported.",
+    description: "PERMANENTLY delete memories by id, tag, or substring match. This is destructive: the store is backed up first and can only be recovered with memory_restore_backup. Use dryRun: true to preview first. Will request confirmation via elicitation if supported.",
     inputSchema: {
       id: z.string().optional().describe("Memory ID to purge (exact match)."),
       tag: z.string().optional().describe("Tag to match - all memories with this tag will be purged."),
@@ -415,7 +1093,7 @@ server.registerTool(
 
         const result = await server.server.elicitInput({
           mode: "form",
-          message: `⚠️ PERMANENT DELETION\n\nYou are about to permanently delete ${preview.purged} memory/memories.\nCriteria: ${criteriaDesc}\n\nThis action cannot be undone!`,
+          message: `⚠️ PERMANENT DELETION\n\nYou are about to permanently delete ${preview.purged} memory/memories.\nCriteria: ${criteriaDesc}\n\nA backup is taken first and can be restored with memory_restore_backup.`,
           requestedSchema: {
             type: "object",
             properties: {
@@ -439,8 +1117,8 @@ server.registerTool(
           };
         }
       } catch {
-        // Elicitation not supported - proceed with a warning
-        log("Elicitation not available for purge confirmation, proceeding with deletion");
+        // Elicitation not supported - proceed with a warning; the purge backs up the store first
+        log("Elicitation not available for purge confirmation, proceeding with deletion (store is backed up first)");
       }
     }
 
@@ -449,12 +1127,162 @@ server.registerTool(
     return {
       content: [{
         type: "text",
-        text: `🗑️ **Purged ${res.purged} memory/memories**\n\nThis action is permanent and cannot be undone.`
+        text: res.backup
+          ? `🗑️ **Purged ${res.purged} memory/memories**\n\nBackup taken first: \`${res.backup}\`. Undo with \`memory_restore_backup({ name: "${res.backup}" })\`.`
+          : `🗑️ **Purged ${res.purged} memory/memories**\n\nThis action is permanent and cannot be undone (backups are disabled).`
       }]
     };
   }
 );
 
+/**
+ * Tool: memory_gc
+ *
+ * Garbage-collects tombstones: permanently removes soft-deleted memories
+ * whose deletion is older than the retention window. Active memories are
+ * never touched. The window defaults to MEMORY_TOMBSTONE_RETENTION_DAYS (or 30).
+ *
+ * @example
+ * // Preview what would be removed
+ * memory_gc({ dryRun: true })
+ *
+ * // Remove tombstones older than a week
+ * memory_gc({ retentionDays: 7 })
+ *
+ * // Collect the global layer instead of the project store
+ * memory_gc({ scope: "global" })
+ */
+server.registerTool(
+  "memory_gc",
+  {
+    title: "Garbage-Collect Tombstones",
+    description: "Permanently remove soft-deleted memories that were deleted longer ago than the retention window. Active memories are never affected. Use dryRun: true to preview first.",
+    inputSchema: {
+      retentionDays: z.number().min(0).optional().describe("Keep tombstones newer than this many days (default MEMORY_TOMBSTONE_RETENTION_DAYS or 30)."),
+      dryRun: z.boolean().default(false).describe("Preview what would be removed without removing anything."),
+      scope: z.enum(["project", "global"]).default("project").describe("Which store to collect: 'project' (default) or 'global'.")
+    },
+    annotations: {
+      title: "Garbage-Collect Tombstones",
+      readOnlyHint: false,
+      destructiveHint: true,  // Removed tombstones cannot be restored
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    const retentionDays = typeof args.retentionDays === "number" ? args.retentionDays : undefined;
+    const dryRun = Boolean(args.dryRun);
+    let res;
+    try {
+      res = await gcTombstones({ memoryPath: scopePath(args.scope), retentionDays, dryRun });
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+    const window = `older than ${res.retentionDays} day(s)`;
+
+    if (res.purged === 0) {
+      return { content: [{ type: "text", text: `No tombstones ${window}. Nothing to collect.` }] };
+    }
+
+    const idList = res.ids.map((mid) => `- ${mid}`).join("\n");
+    return {
+      content: [{
+        type: "text",
+        text: dryRun
+          ? `🔍 **Dry Run Preview**\n\nWould permanently remove ${res.purged} tombstone(s) ${window}:\n${idList}\n\nTo proceed, run again with \`dryRun: false\`.`
+          : `🧹 **Removed ${res.purged} tombstone(s)** ${window}:\n${idList}${res.backup ? `\n\nBackup taken first: \`${res.backup}\`.` : ""}`
+      }]
+    };
+  }
+);
+
+/**
+ * Tool: memory_backups
+ *
+ * Lists the automatic backups of a store, newest first. A backup is taken
+ * before every purge, gc, dedupe and backup restore; only the newest
+ * MEMORY_BACKUP_LIMIT (default 10) are kept.
+ *
+ * This is a **read-only** operation.
+ *
+ * @example
+ * memory_backups({})
+ */
+server.registerTool(
+  "memory_backups",
+  {
+    title: "List Backups",
+    description: "List the automatic backups taken before destructive operations (purge, gc, dedupe, restoring a backup), newest first. Use a backup's name with memory_restore_backup. Keywords: backups, snapshots, undo purge.",
+    inputSchema: {
+      scope: z.enum(["project", "global"]).default("project").describe("Which store's backups to list.")
+    },
+    annotations: {
+      title: "List Backups",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    let listed;
+    try {
+      listed = listBackups({ memoryPath: scopePath(args.scope) });
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+    const { dir, backups } = listed;
+    if (backups.length === 0) {
+      return { content: [{ type: "text", text: `No backups yet (${dir}).` }] };
+    }
+    const rows = backups.map((b) => `| \`${b.name}\` | ${b.reason} | ${b.records} |`).join("\n");
+    return {
+      content: [{
+        type: "text",
+        text: `## Backups (${backups.length})\n\n| Name | Before | Memories |\n|------|--------|----------|\n${rows}`
+      }]
+    };
+  }
+);
+
+/**
+ * Tool: memory_restore_backup
+ *
+ * Replaces the store's records with those of a backup. The current records
+ * are backed up first, so the restore can be undone the same way.
+ *
+ * @example
+ * memory_restore_backup({ name: "latest" })
+ */
+server.registerTool(
+  "memory_restore_backup",
+  {
+    title: "Restore Backup",
+    description: "Replace all memories in the store with the contents of a backup (see memory_backups). The current memories are backed up first, so this can be undone. Keywords: restore backup, undo purge, recover, rollback store.",
+    inputSchema: {
+      name: z.string().min(1).describe("Backup name from memory_backups, or 'latest'."),
+      scope: z.enum(["project", "global"]).default("project").describe("Which store to restore.")
+    },
+    annotations: {
+      title: "Restore Backup",
+      readOnlyHint: false,
+      destructiveHint: true,  // Replaces the current records (which are backed up first)
+      idempotentHint: false,  // Each restore takes a new backup
+      openWorldHint: false
+    }
+  },
+  async (args) => {
+    try {
+      const res = await restoreBackup({ memoryPath: scopePath(args.scope), name: String(args.name ?? ""), source: "mcp" });
+      const undo = res.backup ? `\n\nThe replaced memories were backed up as \`${res.backup}\`.` : "";
+      return { content: [{ type: "text", text: `♻️ Restored ${res.restored} memory/memories from \`${res.name}\`${undo}` }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: `Error: ${err instanceof Error ? err.message : String(err)}` }], isError: true };
+    }
+  }
+);
+
 /**
  * Tool: memory_export
  *
@@ -511,6 +1339,9 @@ server.registerTool(
  *
  * // With larger budget for complex tasks
  * inject_context({ task: "refactor the database layer", budget: 3000 })
+ *
+ * // Blend keyword and vector similarity
+ * inject_context({ task: "postgres connection pooling", ranker: "hybrid" })
  */
 server.registerTool(
   "inject_context",
@@ -520,7 +1351,8 @@ server.registerTool(
     inputSchema: {
       task: z.string().min(1).describe("The coding task you are about to work on. Be specific for better context matching (e.g., 'implement user authentication' vs just 'auth')."),
       budget: z.number().min(200).max(8000).default(1500).describe("Character budget for context output (200-8000, default 1500)."),
-      limit: z.number().min(1).max(50).default(25).describe("Maximum memories to consider for context (1-50, default 25).")
+      limit: z.number().min(1).max(50).default(25).describe("Maximum memories to consider for context (1-50, default 25)."),
+      ranker: z.enum(["legacy", "bm25", "hybrid"]).default("legacy").describe("Ranking algorithm used to pick memories. 'hybrid' blends keyword and local vector similarity for fuzzier task matching.")
     },
     annotations: {
       title: "Inject Task Context",
@@ -543,7 +1375,8 @@ server.registerTool(
     const limit = Number.isFinite(args.limit) ? Number(args.limit) : 25;
 
     const loaded = loadStore();
-    const compressed = compressDeterministic({ records: loaded.records, query: task, budget, limit });
+    // Task text is free-form prose, not a search query
+    const compressed = compressDeterministic({ records: loaded.records, query: task, budget, limit, ranker: args.ranker, syntax: false });
 
     // Check if we have any relevant memories
     const memoryCount = compressed.included.length;
@@ -590,7 +1423,7 @@ server.registerTool(
  * Resource: memory://stats
  *
  * Returns live statistics about the memory store including total counts,
- * active vs deleted breakdown, and top tags by usage.
+ * active vs deleted breakdown, which store file is in use, and top tags by usage.
  *
  * Useful for understanding the current state of the memory store and
  * identifying commonly used tags for organization.
@@ -601,7 +1434,7 @@ server.registerResource(
   "stats",
   "memory://stats",
   {
-    description: "Live statistics about the memory store. Shows total/active/deleted counts and top 10 tags by usage. Refresh anytime to get current state.",
+    description: "Live statistics about the memory store. Shows total/active/deleted counts, which store file was found, memories per kind, the active layers, and top 10 tags by usage. Refresh anytime to get current state.",
     mimeType: "text/markdown"
   },
   async () => {
@@ -616,6 +1449,29 @@ server.registerResource(
     lines.push(`| Total memories | ${s.total} |`);
     lines.push(`| Active | ${s.active} |`);
     lines.push(`| Soft-deleted | ${s.deleted} |`);
+    lines.push(`| Expired | ${s.expired} |`);
+    lines.push(`| Store | \`${formatStoreLocation(locateStore())}\` |`);
+
+    const kindEntries = Object.entries(s.kinds).sort((a, b) => b[1] - a[1]);
+    if (kindEntries.length > 0) {
+      lines.push("\n## Kinds\n");
+      lines.push(`| Kind | Count |`);
+      lines.push(`|------|-------|`);
+      for (const [kind, count] of kindEntries) {
+        lines.push(`| ${kind} | ${count} |`);
+      }
+    }
+
+    if (loaded.layers.length > 1) {
+      lines.push("\n## Layers\n");
+      lines.push(`| Layer | Weight | File |`);
+      lines.push(`|-------|--------|------|`);
+      for (const l of loaded.layers) {
+        lines.push(`| ${l.scope} | ${l.weight} | \`${l.memoryPath}\` |`);
+      }
+      const layerEntries = Object.entries(s.layers);
+      if (layerEntries.length > 0) lines.push(`\nActive per layer: ${layerEntries.map(([k, v]) => `${k}=${v}`).join(", ")}`);
+    }
 
     const tagEntries = Object.entries(s.tags).sort((a, b) => b[1] - a[1]).slice(0, 10);
     if (tagEntries.length > 0) {
@@ -670,7 +1526,8 @@ server.registerResource(
         const date = new Date(r.createdAt).toLocaleDateString();
         const time = new Date(r.createdAt).toLocaleTimeString();
         const tagStr = r.tags.length ? ` \`[${r.tags.join(", ")}]\`` : "";
-        lines.push(`### ${date} at ${time}${tagStr}`);
+        const kindStr = r.kind ? ` (${r.kind})` : "";
+        lines.push(`### ${date} at ${time}${kindStr}${tagStr}`);
         lines.push(`> ${r.text}`);
         lines.push(`_ID: ${r.id}_\n`);
       }
@@ -680,6 +1537,185 @@ server.registerResource(
   }
 );
 
+/**
+ * Resource: memory://trash
+ *
+ * Lists soft-deleted (tombstoned) memories, most recently deleted first.
+ * Any of these can be brought back with the `memory_restore` tool.
+ *
+ * @returns Markdown list of deleted memories with deletion dates
+ */
+server.registerResource(
+  "trash",
+  "memory://trash",
+  {
+    description: "Soft-deleted memories that can still be restored with memory_restore, most recently deleted first.",
+    mimeType: "text/markdown"
+  },
+  async () => {
+    const loaded = loadStore();
+    const deleted = loaded.records
+      .filter(r => r.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+
+    const lines: string[] = [];
+    lines.push("# Trash\n");
+    lines.push("Soft-deleted memories. Use `memory_restore` to bring one back.\n");
+
+    if (deleted.length === 0) {
+      lines.push("_Trash is empty._");
+    } else {
+      for (const r of deleted) {
+        const tagStr = r.tags.length ? ` \`[${r.tags.join(", ")}]\`` : "";
+        lines.push(`### Deleted ${new Date(r.deletedAt!).toLocaleString()}${tagStr}`);
+        lines.push(`> ${r.text}`);
+        lines.push(`_ID: ${r.id}_\n`);
+      }
+    }
+
+    return { contents: [{ uri: "memory://trash", mimeType: "text/markdown", text: lines.join("\n") }] };
+  }
+);
+
+/**
+ * Resource: memory://pinned
+ *
+ * Lists pinned memories, oldest first. These are placed first in every
+ * compressed context block.
+ */
+server.registerResource(
+  "pinned",
+  "memory://pinned",
+  {
+    description: "Pinned memories, which are always included first in memory_compress and inject_context output. Pin or unpin with memory_pin.",
+    mimeType: "text/markdown"
+  },
+  async () => {
+    const loaded = loadStore();
+    const pinned = pinnedMemories(loaded.records);
+
+    const lines: string[] = [];
+    lines.push("# Pinned Memories\n");
+    lines.push("Always included first in compressed context. Use `memory_pin` with `pinned: false` to unpin.\n");
+
+    if (pinned.length === 0) {
+      lines.push("_No pinned memories._");
+    } else {
+      for (const r of pinned) {
+        const tagStr = r.tags.length ? ` \`[${r.tags.join(", ")}]\`` : "";
+        lines.push(`### ${r.kind ? `[${r.kind}] ` : ""}${new Date(r.createdAt).toLocaleString()}${tagStr}`);
+        lines.push(`> ${r.text}`);
+        lines.push(`_ID: ${r.id}_\n`);
+      }
+    }
+
+    return { contents: [{ uri: "memory://pinned", mimeType: "text/markdown", text: lines.join("\n") }] };
+  }
+);
+
+/**
+ * Resource: memory://expiring
+ *
+ * Lists memories with an expiry: expired ones (no longer in search or
+ * context) first, then upcoming expiries, soonest first.
+ */
+server.registerResource(
+  "expiring",
+  "memory://expiring",
+  {
+    description: "Memories with an expiry date: expired ones (already dropped from search and context) and upcoming ones, soonest first. Renew with memory_renew or let them go with memory_delete.",
+    mimeType: "text/markdown"
+  },
+  async () => {
+    const loaded = loadStore();
+    const now = Date.now();
+    const all = expiringMemories(loaded.records);
+    const expired = all.filter(r => isExpired(r, now));
+    const upcoming = all.filter(r => !isExpired(r, now));
+
+    const lines: string[] = [];
+    lines.push("# Expiring Memories\n");
+    lines.push("Use `memory_renew` to keep a memory, or `memory_delete` to let it go.\n");
+
+    const list = (heading: string, recs: typeof all) => {
+      lines.push(`## ${heading}\n`);
+      if (recs.length === 0) lines.push("_None._\n");
+      for (const r of recs) {
+        const tagStr = r.tags.length ? ` \`[${r.tags.join(", ")}]\`` : "";
+        lines.push(`### ${new Date(r.expiresAt!).toLocaleString()}${tagStr}`);
+        lines.push(`> ${r.text}`);
+        lines.push(`_ID: ${r.id}_\n`);
+      }
+    };
+    list("Expired", expired);
+    list("Upcoming", upcoming);
+
+    return { contents: [{ uri: "memory://expiring", mimeType: "text/markdown", text: lines.join("\n") }] };
+  }
+);
+
+/**
+ * Resource: memory://adr
+ *
+ * Lists every active ADR in number order: a status table followed by each
+ * decision rendered in ADR layout.
+ */
+server.registerResource(
+  "adr",
+  "memory://adr",
+  {
+    description: "All Architecture Decision Records in number order with their status (proposed, accepted, superseded), each rendered with context, decision and consequences.",
+    mimeType: "text/markdown"
+  },
+  async () => {
+    const loaded = loadStore();
+    const adrs = loaded.records
+      .filter(r => r.adr && !r.deletedAt)
+      .sort((a, b) => a.adr!.number - b.adr!.number);
+
+    const lines: string[] = [];
+    lines.push("# Architecture Decision Records\n");
+
+    if (adrs.length === 0) {
+      lines.push("_No ADRs recorded yet. Use `memory_adr_write` to record a decision._");
+    } else {
+      lines.push(`| ADR | Title | Status |`);
+      lines.push(`|-----|-------|--------|`);
+      for (const r of adrs) {
+        lines.push(`| ${adrLabel(r.adr!.number)} | ${r.adr!.title} | ${r.adr!.status} |`);
+      }
+      for (const r of adrs) {
+        lines.push("");
+        lines.push(formatAdr(r));
+      }
+    }
+
+    return { contents: [{ uri: "memory://adr", mimeType: "text/markdown", text: lines.join("\n") }] };
+  }
+);
+
+/**
+ * Resource: memory://graph/{id}
+ *
+ * Shows a memory's neighbours: the links it makes and the links other
+ * memories make to it. The id may be a memory ID or an ADR reference.
+ */
+server.registerResource(
+  "graph",
+  new ResourceTemplate("memory://graph/{id}", { list: undefined }),
+  {
+    description: "A memory's linked neighbours (supersedes, relates_to, contradicts) in both directions. Use a memory ID or ADR reference, e.g. memory://graph/ADR-2.",
+    mimeType: "text/markdown"
+  },
+  async (uri, variables) => {
+    const id = decodeURIComponent(String(variables.id ?? ""));
+    const loaded = loadStore();
+    const rec = findMemory(loaded.records, id);
+    const text = rec ? formatGraph(loaded.records, rec) : `_Memory not found: ${id}_`;
+    return { contents: [{ uri: uri.href, mimeType: "text/markdown", text }] };
+  }
+);
+
 // ─────────────────────────────────────────────────────────────
 // MCP Prompts - reusable prompt templates for common workflows
 // ─────────────────────────────────────────────────────────────
@@ -708,7 +1744,7 @@ server.registerPrompt(
   async (args) => {
     const topic = String(args.topic ?? "").trim();
     const loaded = loadStore();
-    const hits = search(loaded.records, topic, 15);
+    const hits = search(loaded.records, topic, 15, { syntax: false });
 
     const memoryContext = hits.length > 0
       ? hits.map(h => `- ${h.text}${h.tags.length ? ` [${h.tags.join(", ")}]` : ""}`).join("\n")
@@ -732,11 +1768,11 @@ server.registerPrompt(
  * Prompt: remember-decision
  *
  * Structured template for capturing architectural/design decisions using the
- * ADR (Architecture Decision Record) format. Creates a well-formatted memory
- * that can be easily retrieved later.
+ * ADR (Architecture Decision Record) format. Creates a structured, numbered
+ * ADR memory that can be easily retrieved later.
  *
- * The generated message asks the LLM to store the decision via memory_write
- * with appropriate tags.
+ * The generated message asks the LLM to store the decision via
+ * memory_adr_write, keeping each field separate.
  *
  * @param title - Short title for the decision
  * @param context - Why this decision was needed
@@ -761,24 +1797,18 @@ server.registerPrompt(
     const decision = String(args.decision ?? "").trim();
     const consequences = args.consequences ? String(args.consequences).trim() : "";
 
-    const parts = [
-      `**Decision: ${title}**`,
-      `Context: ${context}`,
-      `Decision: ${decision}`
-    ];
+    const fields: Record<string, string> = { title, context, decision };
     if (consequences) {
-      parts.push(`Consequences: ${consequences}`);
+      fields.consequences = consequences;
     }
 
-    const memoryText = parts.join(" | ");
-
     return {
       messages: [
         {
           role: "user",
           content: {
             type: "text",
-            text: `Please store this architectural decision as a memory with tags [decision, architecture]:\n\n${memoryText}\n\nUse the memory_write tool to save this decision for future reference.`
+            text: `Please record this architectural decision as an ADR with tags [architecture]:\n\n${JSON.stringify(fields, null, 2)}\n\nUse the memory_adr_write tool with these fields so the decision is stored as a structured, numbered ADR.`
           }
         }
       ]
@@ -818,7 +1848,7 @@ server.registerPrompt(
     const shape = Boolean(args.shape);
 
     const loaded = loadStore();
-    const compressed = compressDeterministic({ records: loaded.records, query: task, budget, limit: 25 });
+    const compressed = compressDeterministic({ records: loaded.records, query: task, budget, limit: 25, syntax: false });
 
     let contextBlock = compressed.markdown;
     let shapingNote = "";
@@ -867,6 +1897,9 @@ server.registerPrompt(
 async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   log("Starting MCP stdio server...");
+  log(`Store: ${formatStoreLocation(locateStore())}`);
+  const gc = await maybeAutoGc();
+  if (gc && gc.purged > 0) log(`Auto-GC removed ${gc.purged} tombstones older than ${gc.retentionDays} days`);
   await server.connect(transport);
   log("MCP server connected.");
 }
@@ -2,15 +2,29 @@
  * @fileoverview Core memory store module for Copilot Memory Store.
  *
  * Provides storage, search, and compression functionality for memories.
- * Uses a local JSON file as the backing store with file locking for
- * concurrent access safety.
+ * Uses a local JSON file (or a SQLite database, see storage.ts) as the
+ * backing store with file locking for concurrent access safety, plus a persistent inverted index (see
+ * searchIndex.ts) kept in sync on every write. Reads can span a global
+ * and a project store (see resolveLayers).
  *
  * @module memoryStore
  */
 
 import fs from "node:fs";
 import path from "node:path";
+import os from "node:os";
 import crypto from "node:crypto";
+import { cosine, embed } from "./vectors.js";
+import { expandToken } from "./fuzzy.js";
+import { CJK_RE, codeTokens } from "./tokenizer.js";
+import { stopWordsFor } from "./stopwords.js";
+import { jaccard, shingles } from "./similarity.js";
+import { detectConflicts, type Conflict } from "./conflicts.js";
+import { adrLabel, adrText, parseAdrRef, parseAdrStatus, parseLegacyAdr, type AdrFields, type AdrRecord } from "./adr.js";
+import { listBackupFiles, readBackup, resolveBackupDir, rotateBackups, writeBackup, type BackupInfo } from "./backups.js";
+import { appendJournal, readJournal, replayJournal, resolveJournalPath, writeSnapshot, type JournalEntry, type ReplayResult } from "./journal.js";
+import { BACKENDS, SCHEMA_VERSION, backendExtension, backendFor, parseBackend, storageFor, type BackendName, type DirectAccess, type MemoryStorage } from "./storage.js";
+import { averageLength, buildIndex, countOccurrences, indexRecord, isFresh, readIndex, resolveIndexPath, statStore, substringHits, unindexRecord, wordHits, wordTokens, writeIndex, type SearchIndex } from "./searchIndex.js";
 
 /**
  * A single memory record stored in the JSON file.
@@ -30,6 +44,82 @@ export type MemoryRecord = {
   updatedAt: string;
   /** ISO timestamp if soft-deleted, null otherwise */
   deletedAt: string | null;
+  /** Ordered revision history, oldest first (absent until the first edit) */
+  revisions?: MemoryRevision[];
+  /** What sort of memory this is (absent for plain notes) */
+  kind?: MemoryKind;
+  /** Structured ADR fields, for decisions recorded as ADRs (text mirrors them) */
+  adr?: AdrRecord;
+  /** Outgoing links to other memories */
+  links?: MemoryLink[];
+  /** Always included first in compressed context (absent when not pinned) */
+  pinned?: boolean;
+  /** ISO timestamp after which the memory drops out of search and context (absent if it never expires) */
+  expiresAt?: string;
+  /** Layer the record was loaded from; set by loadStore() when several layers are active, never stored */
+  layer?: MemoryScope;
+};
+
+/**
+ * How one memory relates to another.
+ * - supersedes: this memory replaces the target (the target is demoted in search)
+ * - relates_to: the memories are about the same thing
+ * - contradicts: the memories disagree
+ */
+export type LinkType = "supersedes" | "relates_to" | "contradicts";
+
+/** All link types, for input validation */
+export const LINK_TYPES: readonly LinkType[] = ["supersedes", "relates_to", "contradicts"];
+
+/**
+ * A typed, directed link from one memory to another.
+ */
+export type MemoryLink = {
+  type: LinkType;
+  /** Id of the linked memory */
+  target: string;
+  /** ISO timestamp when the link was added */
+  at: string;
+};
+
+/**
+ * The type of a memory, used for filtering and kind-specific rendering.
+ * - preference: how someone likes things done
+ * - decision: an architectural or design decision (ADR)
+ * - convention: a team rule or standard
+ * - episode: something that happened (an incident, a debugging session)
+ * - todo: follow-up work
+ */
+export type MemoryKind = "preference" | "decision" | "convention" | "episode" | "todo";
+
+/** All memory kinds, in the order compressed context renders them */
+export const MEMORY_KINDS: readonly MemoryKind[] = ["decision", "convention", "preference", "todo", "episode"];
+
+/**
+ * The kind of change that produced a revision.
+ */
+export type RevisionChange = "add" | "update" | "rollback";
+
+/**
+ * A single version of a memory's text and tags.
+ */
+export type MemoryRevision = {
+  /** Revision number, starting at 1 for the original text */
+  rev: number;
+  /** The memory text at this revision */
+  text: string;
+  /** The tags at this revision */
+  tags: string[];
+  /** ISO timestamp when this revision was written */
+  at: string;
+  /** What produced this revision */
+  change: RevisionChange;
+  /** Where the change came from (e.g., "cli", "mcp"), if known */
+  source?: string;
+  /** For rollbacks, the revision that was restored */
+  fromRev?: number;
+  /** The ADR fields at this revision, for ADR memories */
+  adr?: AdrRecord;
 };
 
 /**
@@ -42,8 +132,60 @@ export type StoreStats = {
   active: number;
   /** Number of soft-deleted records */
   deleted: number;
+  /** Number of active records past their expiry */
+  expired: number;
   /** Tag frequency map */
   tags: Record<string, number>;
+  /** Kind frequency map (active records only) */
+  kinds: Record<string, number>;
+  /** Active records per layer (empty when only one layer is active) */
+  layers: Record<string, number>;
+};
+
+/**
+ * Settings read from a `.copilot-memory.config.json` marker file.
+ */
+export type StoreConfig = {
+  /** Store path, relative to the config file's directory (default .copilot-memory.json, or .db for sqlite) */
+  path?: string;
+  /** Storage backend (MEMORY_BACKEND takes precedence) */
+  backend?: BackendName;
+};
+
+/**
+ * Where the project store is and how it was found.
+ * - env: MEMORY_PATH is an absolute path
+ * - existing: the store file exists in the working directory or a parent
+ * - config: a marker config was found in the working directory or a parent
+ * - repo: nothing found up to the repository root, so the store goes there
+ * - cwd: no repository root either, so the store goes in the working directory
+ */
+export type StoreLocation = {
+  memoryPath: string;
+  /** Storage backend of the file (see backendFor) */
+  backend: BackendName;
+  via: "env" | "existing" | "config" | "repo" | "cwd";
+};
+
+/**
+ * A memory store layer.
+ * - global: shared across projects (default ~/.copilot-memory/global.json)
+ * - project: the project's own store (MEMORY_PATH or .copilot-memory.json)
+ */
+export type MemoryScope = "global" | "project";
+
+/** All layers, in load order (later layers take precedence on id lookups) */
+export const MEMORY_SCOPES: readonly MemoryScope[] = ["global", "project"];
+
+/**
+ * An active layer and its search weight.
+ */
+export type MemoryLayer = {
+  scope: MemoryScope;
+  /** Resolved path of the layer's JSON file */
+  memoryPath: string;
+  /** Multiplier applied to the search scores of the layer's memories */
+  weight: number;
 };
 
 /**
@@ -56,17 +198,121 @@ export type SearchHit = {
   keywords: string[];
   createdAt: string;
   updatedAt: string;
+  kind?: MemoryKind;
+  adr?: AdrRecord;
+  /** Ids of active memories that supersede this one, if any */
+  supersededBy?: string[];
+  pinned?: boolean;
+  expiresAt?: string;
+  /** Source layer, when several layers are active */
+  layer?: MemoryScope;
   /** Relevance score (higher = more relevant) */
   score: number;
 };
 
+/**
+ * Ranking algorithm used by search.
+ * - legacy: fixed weights per substring/tag/keyword hit plus recency (default)
+ * - bm25: BM25F with whole-token matching and per-field weights
+ * - hybrid: BM25 blended with cosine similarity of local hashed vectors
+ */
+export type Ranker = "legacy" | "bm25" | "hybrid";
+
+/** All supported rankers, for input validation */
+export const RANKERS: readonly Ranker[] = ["legacy", "bm25", "hybrid"];
+
+/**
+ * Per-field weights for the BM25 ranker.
+ */
+export type FieldWeights = {
+  /** Weight of the memory text */
+  text: number;
+  /** Weight of user-provided tags */
+  tags: number;
+  /** Weight of auto-extracted keywords */
+  keywords: number;
+};
+
+/**
+ * Options for search().
+ */
+export type SearchOptions = {
+  /** Ranking algorithm (default "legacy") */
+  ranker?: Ranker;
+  /** BM25 field weights; missing fields use DEFAULT_BM25_WEIGHTS */
+  weights?: Partial<FieldWeights>;
+  /** Hybrid ranker: share of the score from vector similarity, 0-1 (default 0.5) */
+  semanticWeight?: number;
+  /** Also match stems and near-miss spellings, scored below exact hits (default true) */
+  fuzzy?: boolean;
+  /** How to treat superseded memories: demote (default), exclude, or include as-is */
+  superseded?: SupersededMode;
+  /** Parse the query syntax (default true); false treats the query as plain words, e.g. task text */
+  syntax?: boolean;
+};
+
+/** How search treats memories that have been superseded */
+export type SupersededMode = "demote" | "exclude" | "include";
+
+/**
+ * A search query parsed into free text and structured filters.
+ *
+ * Syntax: `tag:x`, `-tag:x`, `kind:x`, `-kind:x`, `"exact phrase"`, `-word`,
+ * `-"phrase"`, `after:YYYY-MM-DD`, `before:YYYY-MM-DD`, `id:m_...`, `-id:m_...`.
+ * Everything else is a free-text term.
+ */
+export type ParsedQuery = {
+  /** Free-text terms used for ranking */
+  terms: string[];
+  /** Phrases that must appear in the text (case-insensitive); also ranked */
+  phrases: string[];
+  /** Words or phrases that must not appear in the text or tags */
+  exclude: string[];
+  /** Tags that must all be present */
+  tags: string[];
+  /** Tags that must not be present */
+  excludeTags: string[];
+  /** Kinds to include (any of) */
+  kinds: MemoryKind[];
+  /** Kinds to leave out */
+  excludeKinds: MemoryKind[];
+  /** Only these ids (any of) */
+  ids: string[];
+  /** Never these ids */
+  excludeIds: string[];
+  /** Created on or after this time (epoch ms) */
+  after?: number;
+  /** Created strictly before this time (epoch ms) */
+  before?: number;
+};
+
+/**
+ * An existing memory that closely resembles another text.
+ */
+export type DuplicateMatch = {
+  id: string;
+  text: string;
+  /** Trigram Jaccard similarity, 0-1 */
+  similarity: number;
+};
+
+/**
+ * A group of near-duplicate memories and the one they would be merged into.
+ */
+export type DuplicateCluster = {
+  /** The memory that is kept (the oldest in the group) */
+  keep: MemoryRecord;
+  /** The memories merged into it, with their similarity to it */
+  drop: DuplicateMatch[];
+};
+
 /**
  * Result of deterministic compression.
  */
 export type CompressResult = {
   /** Compressed markdown output */
   markdown: string;
-  /** Search hits that were included */
+  /** Memories that were included, pinned ones first */
   included: SearchHit[];
   /** Requested character budget */
   budget: number;
@@ -74,8 +320,36 @@ export type CompressResult = {
   used: number;
 };
 
-const DEFAULT_MEMORY_PATH = ".copilot-memory.json";
+/**
+ * State of a store's lock file (see lockStatus).
+ */
+export type LockInfo = {
+  /** Path to the lock file */
+  path: string;
+  /** Whether the lock file exists */
+  held: boolean;
+  /** Process id of the owner, if the lock records one */
+  pid?: number;
+  /** When the lock was taken */
+  acquiredAt?: string;
+  /** Milliseconds since the lock was taken */
+  ageMs?: number;
+  /** Whether the owner is still running (undefined when unknown) */
+  alive?: boolean;
+  /** Whether the lock may be reclaimed: its owner is gone or it is older than MEMORY_LOCK_STALE_MS */
+  stale?: boolean;
+};
+
+const DEFAULT_MEMORY_NAME = ".copilot-memory";
+const CONFIG_FILE = ".copilot-memory.config.json";
+const DEFAULT_GLOBAL_DIR = path.join(os.homedir(), ".copilot-memory");
+const DEFAULT_LAYER_WEIGHTS: Record<MemoryScope, number> = { global: 0.8, project: 1 };
 const DEFAULT_LOCK_NAME = ".copilot-memory.lock";
+const DEFAULT_LOCK_TIMEOUT_MS = 2500;
+const DEFAULT_LOCK_STALE_MS = 30_000;
+const DEFAULT_TOMBSTONE_RETENTION_DAYS = 30;
+const DEFAULT_DUPLICATE_THRESHOLD = 0.7;
+const DEFAULT_BACKUP_LIMIT = 10;
 
 /** Returns current time as ISO string */
 function nowIso(): string {
@@ -90,7 +364,7 @@ function makeId(): string {
 }
 
 /** Normalizes tags to lowercase, trimmed, unique values */
-function normalizeTags(tags: string[] | undefined): string[] {
+export function normalizeTags(tags: string[] | undefined): string[] {
   if (!tags || tags.length === 0) return [];
   const out = new Set<string>();
   for (const t of tags) {
@@ -101,36 +375,132 @@ function normalizeTags(tags: string[] | undefined): string[] {
 }
 
 /**
- * Common English stop words filtered out during keyword extraction.
- * These words are too common to be useful for search relevance.
+ * Validates a memory kind.
+ *
+ * @param value - Kind name (case-insensitive)
+ * @returns The kind
+ * @throws Error if it is not one of MEMORY_KINDS
+ */
+export function parseKind(value: string): MemoryKind {
+  const k = value.trim().toLowerCase() as MemoryKind;
+  if (!MEMORY_KINDS.includes(k)) throw new Error(`Unknown memory kind: ${value} (expected one of: ${MEMORY_KINDS.join(", ")})`);
+  return k;
+}
+
+/** Tags that older stores used to mark a kind, migrated into the kind field */
+const KIND_TAGS: Record<string, MemoryKind> = {
+  decision: "decision",
+  adr: "decision",
+  preference: "preference",
+  convention: "convention",
+};
+
+/**
+ * Fills in `kind` from a legacy kind tag. The tag itself is kept, so
+ * existing `tag:` queries still work.
+ */
+function migrateKind(r: MemoryRecord): void {
+  if (r.kind) return;
+  const tag = (r.tags || []).find((t) => KIND_TAGS[t.toLowerCase()]);
+  if (tag) r.kind = KIND_TAGS[tag.toLowerCase()];
+}
+
+/** Returns the next free ADR number (numbers of deleted ADRs are not reused) */
+function nextAdrNumber(records: MemoryRecord[]): number {
+  return records.reduce((max, r) => Math.max(max, r.adr?.number ?? 0), 0) + 1;
+}
+
+/**
+ * Parses decisions stored as pipe-joined strings into ADR fields, numbering
+ * them after any existing ADRs in store order. The text is left as is
+ * until a field is edited.
+ */
+function migrateLegacyAdrs(records: MemoryRecord[]): void {
+  let next = nextAdrNumber(records);
+  for (const r of records) {
+    if (r.adr || r.kind !== "decision") continue;
+    const fields = parseLegacyAdr(r.text);
+    if (fields) r.adr = { number: next++, ...fields };
+  }
+}
+
+/** Units accepted in a TTL such as "14d" */
+const TTL_UNITS_MS: Record<string, number> = { h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * Resolves an expiry given as a TTL ("12h", "14d", "2w") or a date
+ * ("2026-11-01", or a full ISO timestamp).
+ *
+ * @param value - TTL or date
+ * @param from - Epoch ms a TTL counts from (default now)
+ * @returns ISO timestamp of the expiry
+ * @throws Error if value is neither
+ */
+export function parseExpiry(value: string, from = Date.now()): string {
+  const v = value.trim().toLowerCase();
+  const ttl = /^(\d+)\s*([hdw])$/.exec(v);
+  if (ttl) return new Date(from + Number.parseInt(ttl[1], 10) * TTL_UNITS_MS[ttl[2]]).toISOString();
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(v) ? Date.parse(`${v}T00:00:00Z`) : /^\d{4}-\d{2}-\d{2}t/.test(v) ? Date.parse(value.trim()) : NaN;
+  if (!Number.isFinite(ms)) throw new Error(`Invalid expiry: "${value}" (expected a TTL like 14d, 12h, 2w or a date like 2026-11-01)`);
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Checks whether a memory is past its expiry.
+ *
+ * @param r - The memory record
+ * @param now - Epoch ms to compare against (default now)
+ */
+export function isExpired(r: MemoryRecord, now = Date.now()): boolean {
+  return Boolean(r.expiresAt) && Date.parse(r.expiresAt!) <= now;
+}
+
+/**
+ * Finds a memory by id or ADR reference ("ADR-3", "adr-0003", "3").
+ *
+ * @param records - Array of memory records
+ * @param ref - Memory id or ADR reference
+ * @returns The record, or undefined if none matches
+ */
+export function findMemory(records: MemoryRecord[], ref: string): MemoryRecord | undefined {
+  const byId = records.find((r) => r.id === ref);
+  if (byId) return byId;
+  const n = parseAdrRef(ref);
+  return n === null ? undefined : records.find((r) => r.adr?.number === n);
+}
+
+/**
+ * Technical terms of two characters or fewer that are kept as keywords
+ * despite the minimum length.
  */
-const STOP_WORDS = new Set([
-  "i", "me", "my", "we", "our", "you", "your", "he", "she", "it", "they", "them",
-  "a", "an", "the", "this", "that", "these", "those",
-  "is", "am", "are", "was", "were", "be", "been", "being",
-  "have", "has", "had", "do", "does", "did", "will", "would", "could", "should",
-  "can", "may", "might", "must", "shall",
-  "and", "or", "but", "if", "then", "else", "when", "where", "why", "how",
-  "all", "each", "every", "both", "few", "more", "most", "some", "any", "no",
-  "not", "only", "own", "same", "so", "than", "too", "very",
-  "just", "also", "now", "here", "there", "about", "after", "before",
-  "to", "from", "up", "down", "in", "out", "on", "off", "over", "under",
-  "with", "without", "for", "of", "at", "by", "as", "into", "through",
-  "like", "want", "use", "using", "used", "prefer", "always", "never",
+const SHORT_TERMS = new Set([
+  "ai", "ci", "cd", "db", "go", "io", "js", "ml", "os", "pr", "qa", "ts", "ui", "ux", "vm",
 ]);
 
+/** Maximum keywords stored per memory */
+const MAX_KEYWORDS = 15;
+
+/** Returns true if a token is long enough to be a keyword */
+function isKeywordLength(w: string): boolean {
+  const letters = w.replace(/[^\p{L}\p{N}]/gu, "");
+  // CJK words are often two characters; one is usually a particle
+  if (CJK_RE.test(letters)) return letters.length >= 2;
+  return letters.length > 2 || SHORT_TERMS.has(w);
+}
+
 /**
  * Extracts meaningful keywords from text for search indexing.
- * Filters stop words and returns top 10 by frequency.
+ * Uses code-aware, Unicode-aware tokenization (identifiers, paths, package
+ * names, CJK segmentation), filters stop words for the store's or the
+ * detected language, and returns the most frequent.
  *
  * @param text - The text to extract keywords from
- * @returns Array of up to 10 keywords, sorted by frequency
+ * @returns Array of up to MAX_KEYWORDS keywords, sorted by frequency
  */
 function extractKeywords(text: string): string[] {
-  const words = text.toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, " ")
-    .split(/\s+/)
-    .filter(w => w.length > 2 && !STOP_WORDS.has(w));
+  const tokens = codeTokens(text);
+  const stop = stopWordsFor(text, tokens);
+  const words = tokens.filter(w => isKeywordLength(w) && !stop.has(w));
 
   const freq = new Map<string, number>();
   for (const w of words) {
@@ -139,16 +509,176 @@ function extractKeywords(text: string): string[] {
 
   return Array.from(freq.entries())
     .sort((a, b) => b[1] - a[1])
-    .slice(0, 10)
+    .slice(0, MAX_KEYWORDS)
     .map(([word]) => word);
 }
 
-/** Resolves memory file path from argument, env var, or default */
+/** Resolves memory file path from argument (relative to the working directory) or by locateStore() */
 function resolveMemoryPath(p?: string): string {
-  const raw = (p || process.env.MEMORY_PATH || DEFAULT_MEMORY_PATH).trim();
+  if (!p) return locateStore().memoryPath;
+  const raw = p.trim();
   return path.isAbsolute(raw) ? raw : path.resolve(process.cwd(), raw);
 }
 
+/** Reads a marker config file */
+function readConfig(file: string): StoreConfig {
+  const raw = fs.readFileSync(file, "utf-8").trim();
+  const data = raw ? JSON.parse(raw) : {};
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error(`Config file must be a JSON object: ${file}`);
+  if (data.path !== undefined && typeof data.path !== "string") throw new Error(`Config "path" must be a string: ${file}`);
+  if (data.backend !== undefined) data.backend = parseBackend(String(data.backend));
+  return data as StoreConfig;
+}
+
+/** Resolves the backend chosen by MEMORY_BACKEND, if set */
+function resolveBackend(): BackendName | undefined {
+  const env = process.env.MEMORY_BACKEND?.trim();
+  return env ? parseBackend(env) : undefined;
+}
+
+/** Builds a location, checking the file suits the backend that was asked for */
+function located(memoryPath: string, via: StoreLocation["via"], backend?: BackendName): StoreLocation {
+  const actual = backendFor(memoryPath);
+  if (backend && backend !== actual) {
+    throw new Error(`${memoryPath} is not a ${backend} store; use a ${backendExtension(backend)} file or set the backend to ${actual}.`);
+  }
+  return { memoryPath, backend: actual, via };
+}
+
+/**
+ * Finds the project store the way git finds its repository: walks up from
+ * the working directory and stops at the first directory that has a marker
+ * config (.copilot-memory.config.json) or the store file, or at the
+ * repository root (a directory containing .git). A relative MEMORY_PATH
+ * names the file looked for; an absolute one is used as is. Without
+ * MEMORY_PATH the file is `.copilot-memory.json`, or `.copilot-memory.db`
+ * when MEMORY_BACKEND (or the marker config's `backend`) is sqlite.
+ *
+ * @param cwd - Directory to start from (default process.cwd())
+ * @returns The store path, its backend, and how it was found
+ * @throws Error if a marker config is invalid or the file does not suit the chosen backend
+ */
+export function locateStore(cwd = process.cwd()): StoreLocation {
+  const env = process.env.MEMORY_PATH?.trim();
+  const backend = resolveBackend();
+  const raw = env || DEFAULT_MEMORY_NAME + backendExtension(backend ?? "json");
+  if (path.isAbsolute(raw)) return located(raw, "env", backend);
+
+  let dir = path.resolve(cwd);
+  while (true) {
+    const config = path.join(dir, CONFIG_FILE);
+    if (fs.existsSync(config)) {
+      const cfg = readConfig(config);
+      const chosen = backend ?? cfg.backend;
+      const file = env || cfg.path?.trim() || DEFAULT_MEMORY_NAME + backendExtension(chosen ?? "json");
+      return located(path.resolve(dir, file), "config", chosen);
+    }
+    const candidate = path.join(dir, raw);
+    if (fs.existsSync(candidate)) return located(candidate, "existing", backend);
+    if (fs.existsSync(path.join(dir, ".git"))) return located(candidate, "repo", backend);
+    const parent = path.dirname(dir);
+    if (parent === dir) return located(path.resolve(cwd, raw), "cwd", backend);
+    dir = parent;
+  }
+}
+
+/**
+ * Describes a store location for banners and stats.
+ *
+ * @param loc - Result of locateStore()
+ * @returns Path plus a short note on how it was found
+ */
+export function formatStoreLocation(loc: StoreLocation): string {
+  const how: Record<StoreLocation["via"], string> = {
+    env: "set by MEMORY_PATH",
+    existing: "existing store",
+    config: `set by ${CONFIG_FILE}`,
+    repo: "new store at the repository root",
+    cwd: "new store in the working directory; no repository root found",
+  };
+  return `${loc.memoryPath} (${loc.backend}, ${how[loc.via]})`;
+}
+
+/**
+ * Validates a layer name.
+ *
+ * @param value - Layer name (case-insensitive)
+ * @returns The scope
+ * @throws Error if it is not one of MEMORY_SCOPES
+ */
+export function parseScope(value: string): MemoryScope {
+  const s = value.trim().toLowerCase() as MemoryScope;
+  if (!MEMORY_SCOPES.includes(s)) throw new Error(`Unknown scope: ${value} (expected one of: ${MEMORY_SCOPES.join(", ")})`);
+  return s;
+}
+
+/** Resolves the global layer path from MEMORY_GLOBAL_PATH or default (global.json, or global.db for sqlite); null when disabled ("none") */
+function resolveGlobalPath(): string | null {
+  const raw = (process.env.MEMORY_GLOBAL_PATH ?? "").trim();
+  if (raw.toLowerCase() === "none") return null;
+  if (!raw) return path.join(DEFAULT_GLOBAL_DIR, `global${backendExtension(resolveBackend() ?? "json")}`);
+  const expanded = raw.startsWith("~") ? path.join(os.homedir(), raw.slice(1)) : raw;
+  return path.isAbsolute(expanded) ? expanded : path.resolve(process.cwd(), expanded);
+}
+
+/** Parses MEMORY_LAYER_WEIGHTS ("global=0.8,project=1") over the defaults */
+function resolveLayerWeights(): Record<MemoryScope, number> {
+  const weights = { ...DEFAULT_LAYER_WEIGHTS };
+  for (const part of (process.env.MEMORY_LAYER_WEIGHTS || "").split(",")) {
+    if (!part.trim()) continue;
+    const [name, value] = part.split("=");
+    const w = Number.parseFloat(value ?? "");
+    if (!Number.isFinite(w) || w < 0) throw new Error(`Invalid layer weight: ${part.trim()} (expected scope=number)`);
+    weights[parseScope(name)] = w;
+  }
+  return weights;
+}
+
+/**
+ * Resolves the active layers: the global store (unless disabled or the same
+ * file as the project store), then the project store.
+ *
+ * @returns Layers in load order
+ * @throws Error if MEMORY_LAYER_WEIGHTS is invalid
+ */
+export function resolveLayers(): MemoryLayer[] {
+  const weights = resolveLayerWeights();
+  const project = resolveMemoryPath();
+  const global = resolveGlobalPath();
+  const layers: MemoryLayer[] = [];
+  if (global && global !== project) layers.push({ scope: "global", memoryPath: global, weight: weights.global });
+  layers.push({ scope: "project", memoryPath: project, weight: weights.project });
+  return layers;
+}
+
+/**
+ * Resolves the file a write should go to.
+ *
+ * @param scope - Target layer (default "project")
+ * @returns Resolved memory path of the layer
+ * @throws Error if the scope is unknown or the global layer is disabled
+ */
+export function scopePath(scope?: string): string {
+  const s = scope ? parseScope(scope) : "project";
+  const layer = resolveLayers().find((l) => l.scope === s);
+  if (!layer) throw new Error("The global layer is disabled (MEMORY_GLOBAL_PATH=none).");
+  return layer.memoryPath;
+}
+
+/**
+ * Resolves the file holding a memory, for writes that target an existing id.
+ * An explicit path wins; otherwise layers are checked project first, falling
+ * back to the project store when no layer has the memory.
+ */
+function resolvePathForId(memoryPath: string | undefined, ref: string): string {
+  if (memoryPath) return resolveMemoryPath(memoryPath);
+  const layers = resolveLayers();
+  for (const l of layers.slice().reverse()) {
+    if (readTarget(l.memoryPath, ref).record) return l.memoryPath;
+  }
+  return layers[layers.length - 1].memoryPath;
+}
+
 /** Resolves lock file path adjacent to memory file */
 function resolveLockPath(memoryPath: string): string {
   const envLock = process.env.MEMORY_LOCK_PATH?.trim();
@@ -161,15 +691,85 @@ async function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** Reads a positive millisecond setting from an env var, or returns the default */
+function envMs(name: string, fallback: number): number {
+  const env = Number.parseInt(process.env[name]?.trim() || "", 10);
+  return Number.isFinite(env) && env > 0 ? env : fallback;
+}
+
+/** Whether a process is running (a process we may not signal still counts as running) */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err?.code === "EPERM";
+  }
+}
+
+/**
+ * Reads the owner of a lock file back from its `pid timestamp` contents.
+ * A lock is stale when its owner is no longer running, or when it is older
+ * than MEMORY_LOCK_STALE_MS (default 30s) - no write holds it that long.
+ * A lock whose contents cannot be read yet (its owner is still writing
+ * them) is judged by the file's age alone.
+ *
+ * @param lockPath - Path to the lock file
+ * @returns The lock's state (held: false when there is no lock file) and its raw contents
+ */
+function inspectLock(lockPath: string): { lock: LockInfo; raw?: string } {
+  let raw: string;
+  let mtimeMs: number;
+  try {
+    raw = fs.readFileSync(lockPath, "utf-8");
+    mtimeMs = fs.statSync(lockPath).mtimeMs;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return { lock: { path: lockPath, held: false } };
+    throw err;
+  }
+  const [pidText, at] = raw.trim().split(/\s+/);
+  const pid = Number.parseInt(pidText || "", 10);
+  const since = at && !Number.isNaN(Date.parse(at)) ? Date.parse(at) : mtimeMs;
+  const ageMs = Math.max(0, Math.round(Date.now() - since));
+  const alive = Number.isFinite(pid) && pid > 0 ? isProcessAlive(pid) : undefined;
+  const stale = alive === false || ageMs > envMs("MEMORY_LOCK_STALE_MS", DEFAULT_LOCK_STALE_MS);
+  return { lock: { path: lockPath, held: true, pid: alive === undefined ? undefined : pid, acquiredAt: new Date(since).toISOString(), ageMs, alive, stale }, raw };
+}
+
+/**
+ * Removes a lock file, but only if it still has the given contents, so a
+ * lock that another process has just reclaimed is left alone. The file is
+ * first renamed to a unique name, which claims it atomically, then checked;
+ * a lock that turns out to be newer is linked back into place unless yet
+ * another lock has been taken meanwhile.
+ */
+function removeLock(lockPath: string, raw: string | undefined): boolean {
+  const claimed = `${lockPath}.stale.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
+  try {
+    fs.renameSync(lockPath, claimed);
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return false;
+    throw err;
+  }
+  try {
+    if (raw === undefined || fs.readFileSync(claimed, "utf-8") === raw) return true;
+    try { fs.linkSync(claimed, lockPath); } catch { /* a newer lock holds the path */ }
+    return false;
+  } finally {
+    fs.rmSync(claimed, { force: true });
+  }
+}
+
 /**
  * Acquires an exclusive file lock for concurrent access safety.
- * Uses atomic file creation (wx flag) as the locking mechanism.
+ * Uses atomic file creation (wx flag) as the locking mechanism. A stale
+ * lock (see inspectLock), left behind by a crashed process, is reclaimed.
  *
  * @param lockPath - Path to the lock file
- * @param timeoutMs - Maximum time to wait for lock (default 2500ms)
+ * @param timeoutMs - Maximum time to wait for lock (default MEMORY_LOCK_TIMEOUT_MS or 2500ms)
  * @throws Error if lock cannot be acquired within timeout
  */
-async function acquireLock(lockPath: string, timeoutMs = 2500): Promise<void> {
+async function acquireLock(lockPath: string, timeoutMs = envMs("MEMORY_LOCK_TIMEOUT_MS", DEFAULT_LOCK_TIMEOUT_MS)): Promise<void> {
   const start = Date.now();
   while (true) {
     try {
@@ -179,154 +779,1211 @@ async function acquireLock(lockPath: string, timeoutMs = 2500): Promise<void> {
       return;
     } catch (err: any) {
       if (err?.code !== "EEXIST") throw err;
-      if (Date.now() - start > timeoutMs) throw new Error(`Timed out acquiring lock: ${lockPath}`);
+      const { lock, raw } = inspectLock(lockPath);
+      if (lock.held && lock.stale && removeLock(lockPath, raw)) continue;
+      if (Date.now() - start > timeoutMs) {
+        const owner = lock.pid ? ` (held by pid ${lock.pid} since ${lock.acquiredAt})` : "";
+        throw new Error(`Timed out acquiring lock: ${lockPath}${owner}`);
+      }
       await sleep(50 + Math.floor(Math.random() * 50));
     }
   }
 }
 
-/** Releases file lock by deleting the lock file */
-function releaseLock(lockPath: string): void {
-  try { fs.unlinkSync(lockPath); } catch { /* ignore */ }
+/** Releases file lock by deleting the lock file */
+function releaseLock(lockPath: string): void {
+  try { fs.unlinkSync(lockPath); } catch { /* ignore */ }
+}
+
+/**
+ * Reports who holds a store's lock, if anyone.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @returns The lock's state
+ */
+export function lockStatus(opts: { memoryPath?: string } = {}): LockInfo {
+  return inspectLock(resolveLockPath(resolveMemoryPath(opts.memoryPath))).lock;
+}
+
+/**
+ * Removes a store's lock by hand. Only stale locks are removed unless
+ * `force` is set, since breaking a live lock lets two writers race.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.force - Remove the lock even if its owner is running
+ * @returns Whether the lock was removed, and its state before
+ */
+export function breakLock(opts: { memoryPath?: string; force?: boolean } = {}): { broken: boolean; lock: LockInfo } {
+  const { lock, raw } = inspectLock(resolveLockPath(resolveMemoryPath(opts.memoryPath)));
+  if (!lock.held || (!lock.stale && !opts.force)) return { broken: false, lock };
+  return { broken: removeLock(lock.path, raw), lock };
+}
+
+/** Resolves how many backups to keep per store from MEMORY_BACKUP_LIMIT (0 turns backups off) */
+function resolveBackupLimit(): number {
+  const env = Number.parseInt(process.env.MEMORY_BACKUP_LIMIT?.trim() || "", 10);
+  return Number.isFinite(env) && env >= 0 ? env : DEFAULT_BACKUP_LIMIT;
+}
+
+/**
+ * Backs up a store's records before a destructive change and rotates old
+ * backups. Must be called while holding the lock.
+ *
+ * @param mp - Resolved memory path
+ * @param records - The record set before the change
+ * @param reason - The operation about to run
+ * @returns The backup's name, or undefined when backups are off or the store is empty
+ */
+function backupStore(mp: string, records: MemoryRecord[], reason: string): string | undefined {
+  const limit = resolveBackupLimit();
+  if (limit === 0 || records.length === 0) return undefined;
+  const dir = resolveBackupDir(mp);
+  const backup = writeBackup(dir, records, reason);
+  rotateBackups(dir, limit);
+  return backup.name;
+}
+
+/**
+ * Fills in fields that version 1 files (bare arrays, hand-written seed
+ * files such as examples/scenarios) may leave out: keywords, timestamps
+ * and the tombstone. Until the store is next written this runs on every
+ * read, so a missing id is derived from the record's position and text
+ * (records with the same text still get distinct ids) and a missing
+ * creation time becomes the epoch, keeping both stable across reads.
+ */
+function backfillFields(r: MemoryRecord, index: number): void {
+  if (typeof r.text !== "string") r.text = String(r.text ?? "");
+  if (!r.id) r.id = `m_legacy_${crypto.createHash("sha1").update(`${index}:${r.text}`).digest("hex").slice(0, 12)}`;
+  if (!Array.isArray(r.tags)) r.tags = [];
+  if (!Array.isArray(r.keywords)) r.keywords = extractKeywords(r.text);
+  if (!r.createdAt) r.createdAt = r.updatedAt || new Date(0).toISOString();
+  if (!r.updatedAt) r.updatedAt = r.createdAt;
+  if (r.deletedAt === undefined) r.deletedAt = null;
+}
+
+/** Record migrations, keyed by the schema version they upgrade from */
+const MIGRATIONS: Record<number, typeof backfillFields> = {
+  1: backfillFields,
+};
+
+/**
+ * Brings records stored at an older schema version up to SCHEMA_VERSION,
+ * then applies the migrations that run on every read (legacy kind tags and
+ * pipe-joined ADRs).
+ *
+ * @param records - Records as stored; changed in place
+ * @param version - Schema version they were stored at
+ */
+function migrateRecords(records: MemoryRecord[], version: number): void {
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    for (const [i, r] of records.entries()) MIGRATIONS[v]?.(r, i);
+  }
+  for (const r of records) migrateKind(r);
+  migrateLegacyAdrs(records);
+}
+
+/** Reads every record of a store file through its storage backend, applying read-time migrations */
+function readRecords(mp: string): MemoryRecord[] {
+  const storage = storageFor(mp);
+  const records = storage.load();
+  migrateRecords(records, storage.version());
+  return records;
+}
+
+/** Returns the backend's direct access if the store is at the current schema version (older stores are read in full, to upgrade them) */
+function directAccess(storage: MemoryStorage): DirectAccess | null {
+  return storage.direct && storage.version() === SCHEMA_VERSION ? storage.direct : null;
+}
+
+/**
+ * Applies the read-time migrations (see migrateRecords) to records read or
+ * written one at a time, numbering legacy ADRs after the store's highest.
+ *
+ * @param direct - Direct access to the store
+ * @param records - Records to migrate; changed in place
+ */
+function settleRecords(direct: DirectAccess, records: MemoryRecord[]): void {
+  let next: number | undefined;
+  for (const r of records) {
+    migrateKind(r);
+    if (r.adr || r.kind !== "decision") continue;
+    const fields = parseLegacyAdr(r.text);
+    if (!fields) continue;
+    next ??= direct.maxAdr() + 1;
+    r.adr = { number: next++, ...fields };
+  }
+}
+
+/**
+ * Reads the record a write targets. A backend with direct access (sqlite)
+ * reads just that row; otherwise every record is read and searched.
+ *
+ * @param mp - Resolved memory path
+ * @param ref - Memory id, or (with match "ref") an ADR reference
+ * @param match - "id" to match ids only, "ref" to also accept ADR references (see findMemory)
+ * @returns The record (undefined if none matches) and, when the store was read in full, every record
+ */
+function readTarget(mp: string, ref: string, match: "id" | "ref" = "ref"): { record?: MemoryRecord; records: MemoryRecord[] | null } {
+  const direct = directAccess(storageFor(mp));
+  if (!direct) {
+    const records = readRecords(mp);
+    return { record: match === "id" ? records.find((r) => r.id === ref) : findMemory(records, ref), records };
+  }
+  let record = direct.byId(ref);
+  const n = record || match === "id" ? null : parseAdrRef(ref);
+  if (n !== null) record = direct.byAdr(n);
+  if (record) settleRecords(direct, [record]);
+  return { record, records: null };
+}
+
+/**
+ * Changes to persist with writeStore.
+ */
+type StoreChange = {
+  /** New records (already pushed onto the record set) */
+  appended?: MemoryRecord[];
+  /** Existing records that were modified */
+  updated?: MemoryRecord[];
+  /** Existing records that were soft-deleted (stored like updates, journaled as deletes) */
+  softDeleted?: MemoryRecord[];
+  /** Ids of records that were removed from the record set */
+  deleted?: string[];
+  /** Where the change came from, for the journal (default: the script name) */
+  source?: string;
+};
+
+/**
+ * Persists changes through the store's backend, appends them to the
+ * journal, and brings the search index in line with them. Must be called
+ * while holding the lock. A store without a journal gets one starting with
+ * a snapshot of its state before the change. A store at an older schema
+ * version is rewritten in full at the current one. A backend with direct
+ * access (sqlite) indexes the changed rows itself; otherwise the existing
+ * index file is patched for the changed records when it matches the
+ * current file, else rebuilt from the full record set.
+ *
+ * @param mp - Resolved memory path
+ * @param records - The full record set after the change, or null if it was not read (see readTarget)
+ * @param change - What was added, modified, or removed
+ */
+function writeStore(mp: string, records: MemoryRecord[] | null, change: StoreChange): void {
+  const storage = storageFor(mp);
+  const direct = directAccess(storage);
+  if (!direct && !records) throw new Error(`${mp} must be read in full before it is written`);
+  const jp = resolveJournalPath(mp);
+  const meta = { at: nowIso(), by: change.source || path.basename(process.argv[1] || "node"), pid: process.pid };
+  if (!fs.existsSync(jp) && statStore(mp)) writeSnapshot(jp, { ...meta, op: "snapshot", records: readRecords(mp) });
+
+  const updated = [...(change.updated || []), ...(change.softDeleted || [])];
+  if (direct) settleRecords(direct, [...updated, ...(change.appended || [])]);
+  const ip = resolveIndexPath(mp);
+  const existing = direct ? null : readIndex(ip);
+  const fresh = Boolean(existing && isFresh(existing, statStore(mp)));
+  const upgrade = !direct && storage.version() < SCHEMA_VERSION;
+  if (upgrade) storage.upgrade(records!);
+  else {
+    if (change.deleted?.length) storage.delete(change.deleted);
+    if (updated.length) storage.update(updated);
+    if (change.appended?.length) storage.append(change.appended);
+  }
+
+  meta.at = nowIso();
+  const entries: JournalEntry[] = [
+    ...(change.deleted?.length ? [{ ...meta, op: "purge" as const, ids: change.deleted }] : []),
+    ...(change.updated || []).map((record) => ({ ...meta, op: "update" as const, record })),
+    ...(change.softDeleted || []).map((record) => ({ ...meta, op: "delete" as const, record })),
+    ...(change.appended || []).map((record) => ({ ...meta, op: "add" as const, record })),
+  ];
+  appendJournal(jp, entries);
+  if (direct) return;
+
+  let index: SearchIndex;
+  if (existing && fresh && !upgrade) {
+    index = existing;
+    // Deletions first, as in storage: a restore deletes and re-appends the same ids
+    for (const id of change.deleted || []) unindexRecord(index, id);
+    for (const r of [...updated, ...(change.appended || [])]) indexRecord(index, r);
+  } else {
+    index = buildIndex(records!);
+  }
+  writeIndex(ip, index, statStore(mp));
+}
+
+/** Search indexes for record arrays returned by loadStore (or built on demand) */
+const indexCache = new WeakMap<MemoryRecord[], SearchIndex>();
+
+/** Storages of record arrays loaded from a single store file, so search can use the backend's text index */
+const storageCache = new WeakMap<MemoryRecord[], MemoryStorage>();
+
+/** Returns the search index for a record array, building one if needed */
+function indexFor(records: MemoryRecord[]): SearchIndex {
+  let index = indexCache.get(records);
+  if (!index) {
+    index = buildIndex(records);
+    indexCache.set(records, index);
+  }
+  return index;
+}
+
+/**
+ * Loads the memory store from disk.
+ *
+ * Without a path override, every active layer (see resolveLayers) is loaded
+ * and the records are concatenated, global first. When more than one layer
+ * has records, each record is tagged with its `layer` and searched through
+ * a combined in-memory index.
+ *
+ * @param memoryPath - Optional path override; loads only that file
+ * @returns Object containing the project path, all records, and the active layers
+ */
+export function loadStore(memoryPath?: string): { memoryPath: string; records: MemoryRecord[]; layers: MemoryLayer[] } {
+  if (memoryPath) {
+    const mp = resolveMemoryPath(memoryPath);
+    return { memoryPath: mp, records: loadLayer(mp), layers: [{ scope: "project", memoryPath: mp, weight: 1 }] };
+  }
+  const layers = resolveLayers();
+  const project = layers[layers.length - 1].memoryPath;
+  const loaded = layers.map((l) => ({ scope: l.scope, records: loadLayer(l.memoryPath) }));
+  const nonEmpty = loaded.filter((l) => l.records.length > 0);
+  if (nonEmpty.length <= 1) {
+    return { memoryPath: project, records: nonEmpty[0]?.records ?? loaded[loaded.length - 1].records, layers };
+  }
+  const records: MemoryRecord[] = [];
+  for (const l of loaded) {
+    for (const r of l.records) r.layer = l.scope;
+    records.push(...l.records);
+  }
+  return { memoryPath: project, records, layers };
+}
+
+/**
+ * Loads one store file along with its persisted search index: the
+ * backend's own (sqlite), or the index file, rebuilt if missing or stale.
+ */
+function loadLayer(mp: string): MemoryRecord[] {
+  const storage = storageFor(mp);
+  if (storage.direct) {
+    const records = readRecords(mp);
+    indexCache.set(records, storage.direct.index());
+    storageCache.set(records, storage);
+    return records;
+  }
+  const before = statStore(mp);
+  const records = readRecords(mp);
+  const after = statStore(mp);
+  if (!before || !after || before.size !== after.size || before.mtimeMs !== after.mtimeMs) {
+    // Store missing or changed while reading - index in memory only
+    indexCache.set(records, buildIndex(records));
+    return records;
+  }
+
+  const ip = resolveIndexPath(mp);
+  let index = readIndex(ip);
+  if (!index || !isFresh(index, after)) {
+    index = buildIndex(records);
+    try { writeIndex(ip, index, after); } catch { /* index is an optimization; ignore write failures */ }
+  }
+  indexCache.set(records, index);
+  storageCache.set(records, storageFor(mp));
+  return records;
+}
+
+/**
+ * Adds a new memory to the store.
+ * Automatically extracts keywords from text for improved search.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.text - The memory content (required)
+ * @param opts.tags - Optional tags for categorization
+ * @param opts.kind - Optional memory kind (inferred from a decision/preference/convention tag if omitted)
+ * @param opts.expires - Optional TTL ("14d") or date after which the memory expires
+ * @returns The created memory record and any existing near-duplicates of it (most similar first)
+ * @throws Error if text is empty, the kind is unknown, or the expiry is invalid
+ */
+export async function addMemory(opts: { memoryPath?: string; text: string; tags?: string[]; kind?: string; expires?: string }): Promise<{ record: MemoryRecord; duplicates: DuplicateMatch[] }> {
+  const tags = normalizeTags(opts.tags);
+  const kind = opts.kind ? parseKind(opts.kind) : undefined;
+  const expiresAt = opts.expires ? parseExpiry(opts.expires) : undefined;
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const direct = directAccess(storageFor(mp));
+    const records = direct ? null : readRecords(mp);
+    const t = opts.text.trim();
+    if (!t) throw new Error("Cannot add an empty memory.");
+    const keywords = extractKeywords(t);
+    const rec: MemoryRecord = {
+      id: makeId(),
+      text: t,
+      tags,
+      keywords,
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+      deletedAt: null
+    };
+    if (kind) rec.kind = kind;
+    else migrateKind(rec);
+    if (expiresAt) rec.expiresAt = expiresAt;
+    const duplicates = findDuplicates(records ?? direct!.texts(), t);
+    records?.push(rec);
+    writeStore(mp, records, { appended: [rec] });
+    return { record: rec, duplicates };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Returns the revision history of a record, oldest first.
+ * Records that were never edited get a synthesized revision 1.
+ *
+ * @param r - The memory record
+ * @returns Array of revisions (the last one mirrors the current state)
+ */
+export function listRevisions(r: MemoryRecord): MemoryRevision[] {
+  if (r.revisions && r.revisions.length > 0) return r.revisions;
+  const first: MemoryRevision = { rev: 1, text: r.text, tags: r.tags, at: r.createdAt, change: "add" };
+  if (r.adr) first.adr = r.adr;
+  return [first];
+}
+
+/**
+ * Applies new text/tags to a record and appends a revision entry.
+ * Seeds the history with the original version on the first change.
+ */
+function applyRevision(r: MemoryRecord, next: { text: string; tags: string[]; adr?: AdrRecord }, change: RevisionChange, source?: string, fromRev?: number): void {
+  const revisions = listRevisions(r).slice();
+  const at = nowIso();
+  r.text = next.text;
+  r.tags = next.tags;
+  r.keywords = extractKeywords(next.text);
+  r.updatedAt = at;
+  const rev: MemoryRevision = { rev: revisions.length + 1, text: next.text, tags: next.tags, at, change };
+  if (next.adr) {
+    r.adr = next.adr;
+    rev.adr = next.adr;
+  }
+  if (source) rev.source = source;
+  if (fromRev !== undefined) rev.fromRev = fromRev;
+  revisions.push(rev);
+  r.revisions = revisions;
+}
+
+/**
+ * Updates an existing memory in place, preserving its id and createdAt.
+ * Re-extracts keywords, bumps updatedAt, and records a new revision.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - The memory ID to update
+ * @param opts.text - Replacement text (optional)
+ * @param opts.tags - Replacement tags (optional)
+ * @param opts.source - Where the change came from, stored on the revision (optional)
+ * @returns Object indicating if found and the updated record
+ * @throws Error if neither text nor tags are provided, text is empty, the memory is deleted,
+ *   or text is given for an ADR (use updateAdr)
+ */
+export async function updateMemory(opts: { memoryPath?: string; id: string; text?: string; tags?: string[]; source?: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  if (opts.text === undefined && opts.tags === undefined) throw new Error("update requires text and/or tags.");
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id, "id");
+    if (!r) return { found: false };
+    if (r.deletedAt) throw new Error(`Cannot update a deleted memory: ${opts.id}`);
+    if (r.adr && opts.text !== undefined) throw new Error(`${adrLabel(r.adr.number)} is an ADR; edit its fields instead of its text.`);
+    let text = r.text;
+    if (opts.text !== undefined) {
+      text = opts.text.trim();
+      if (!text) throw new Error("Cannot update a memory to empty text.");
+    }
+    const tags = opts.tags !== undefined ? normalizeTags(opts.tags) : r.tags;
+    applyRevision(r, { text, tags, adr: r.adr }, "update", opts.source);
+    writeStore(mp, records, { updated: [r], source: opts.source });
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Rolls a memory back to an earlier revision.
+ * The rollback is itself recorded as a new revision, so it can be undone.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - The memory ID to roll back
+ * @param opts.rev - The revision number to restore
+ * @param opts.source - Where the change came from, stored on the revision (optional)
+ * @returns Object indicating if found and the updated record
+ * @throws Error if the memory is deleted or the revision does not exist
+ */
+export async function rollbackMemory(opts: { memoryPath?: string; id: string; rev: number; source?: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id, "id");
+    if (!r) return { found: false };
+    if (r.deletedAt) throw new Error(`Cannot roll back a deleted memory: ${opts.id}`);
+    const target = listRevisions(r).find((v) => v.rev === opts.rev);
+    if (!target) throw new Error(`Revision ${opts.rev} not found for ${opts.id}`);
+    let adr = target.adr;
+    if (r.adr && !adr) {
+      // Revision predates the ADR fields: recover them from the legacy text
+      const fields = parseLegacyAdr(target.text);
+      if (!fields) throw new Error(`Revision ${opts.rev} of ${adrLabel(r.adr.number)} has no ADR fields to restore`);
+      adr = { number: r.adr.number, ...fields, status: r.adr.status };
+    }
+    applyRevision(r, { text: target.text, tags: target.tags.slice(), adr }, "rollback", opts.source, target.rev);
+    writeStore(mp, records, { updated: [r], source: opts.source });
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/** Trims required ADR fields, throwing if any is empty */
+function checkAdrFields(f: AdrFields): AdrFields {
+  const out: AdrFields = {
+    title: f.title.trim(),
+    status: parseAdrStatus(f.status),
+    context: f.context.trim(),
+    decision: f.decision.trim()
+  };
+  for (const key of ["title", "context", "decision"] as const) {
+    if (!out[key]) throw new Error(`ADR ${key} cannot be empty.`);
+  }
+  const consequences = f.consequences?.trim();
+  if (consequences) out.consequences = consequences;
+  return out;
+}
+
+/**
+ * Records a decision as a structured ADR memory (kind "decision").
+ * It gets the next ADR number; its text is generated from the fields.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.title - Short title for the decision
+ * @param opts.context - Why the decision was needed
+ * @param opts.decision - What was decided
+ * @param opts.consequences - Resulting trade-offs (optional)
+ * @param opts.status - proposed, accepted, or superseded (default "accepted")
+ * @param opts.tags - Optional tags for categorization
+ * @returns The created memory record
+ * @throws Error if a required field is empty or the status is unknown
+ */
+export async function addAdr(opts: { memoryPath?: string; title: string; context: string; decision: string; consequences?: string; status?: string; tags?: string[] }): Promise<MemoryRecord> {
+  const fields = checkAdrFields({ ...opts, status: (opts.status || "accepted") as AdrFields["status"] });
+  const tags = normalizeTags(opts.tags);
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const direct = directAccess(storageFor(mp));
+    const records = direct ? null : readRecords(mp);
+    const adr: AdrRecord = { number: records ? nextAdrNumber(records) : direct!.maxAdr() + 1, ...fields };
+    const text = adrText(adr);
+    const rec: MemoryRecord = {
+      id: makeId(),
+      text,
+      tags,
+      keywords: extractKeywords(text),
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+      deletedAt: null,
+      kind: "decision",
+      adr
+    };
+    records?.push(rec);
+    writeStore(mp, records, { appended: [rec] });
+    return rec;
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Edits individual fields of an ADR memory. The text is regenerated from
+ * the fields and the change is recorded as a new revision.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - Memory ID or ADR reference (e.g. "ADR-3")
+ * @param opts.title - New title (optional)
+ * @param opts.context - New context (optional)
+ * @param opts.decision - New decision (optional)
+ * @param opts.consequences - New consequences; empty string clears them (optional)
+ * @param opts.status - New status (optional)
+ * @param opts.tags - Replacement tags (optional)
+ * @param opts.source - Where the change came from, stored on the revision (optional)
+ * @returns Object indicating if found and the updated record
+ * @throws Error if nothing is changed, the memory is deleted or not an ADR, or a field is invalid
+ */
+export async function updateAdr(opts: { memoryPath?: string; id: string; title?: string; context?: string; decision?: string; consequences?: string; status?: string; tags?: string[]; source?: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  const { memoryPath, id, tags, source, ...changes } = opts;
+  if (Object.values(changes).every((v) => v === undefined) && tags === undefined) throw new Error("ADR update requires at least one field.");
+  const mp = resolvePathForId(memoryPath, id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, id);
+    if (!r) return { found: false };
+    if (!r.adr) throw new Error(`Not an ADR: ${r.id}`);
+    if (r.deletedAt) throw new Error(`Cannot update a deleted memory: ${r.id}`);
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined));
+    const adr: AdrRecord = { number: r.adr.number, ...checkAdrFields({ ...r.adr, ...defined } as AdrFields) };
+    applyRevision(r, { text: adrText(adr), tags: tags !== undefined ? normalizeTags(tags) : r.tags, adr }, "update", source);
+    writeStore(mp, records, { updated: [r], source });
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Validates a link type.
+ *
+ * @param value - Link type name (case-insensitive; "relates-to" is accepted)
+ * @returns The link type
+ * @throws Error if it is not one of LINK_TYPES
+ */
+export function parseLinkType(value: string): LinkType {
+  const t = value.trim().toLowerCase().replace(/-/g, "_") as LinkType;
+  if (!LINK_TYPES.includes(t)) throw new Error(`Unknown link type: ${value} (expected one of: ${LINK_TYPES.join(", ")})`);
+  return t;
+}
+
+/**
+ * Adds or removes a typed link between two memories.
+ *
+ * Linking with `supersedes` also marks a superseded ADR's status as
+ * "superseded" (recorded as a revision). Removing the link does not revert it.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.from - Source memory ID or ADR reference
+ * @param opts.to - Target memory ID or ADR reference
+ * @param opts.type - supersedes, relates_to, or contradicts
+ * @param opts.remove - If true, removes the link instead of adding it
+ * @param opts.source - Where the change came from, stored on any ADR revision (optional)
+ * @returns Whether both memories were found, whether anything changed, and the source record
+ * @throws Error if the type is unknown, the memories are the same or in different layers, or either is deleted
+ */
+export async function linkMemories(opts: { memoryPath?: string; from: string; to: string; type: string; remove?: boolean; source?: string }): Promise<{ found: boolean; changed: boolean; record?: MemoryRecord }> {
+  const type = parseLinkType(opts.type);
+  const mp = resolvePathForId(opts.memoryPath, opts.from);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: from, records } = readTarget(mp, opts.from);
+    const to = records ? findMemory(records, opts.to) : readTarget(mp, opts.to).record;
+    if (from && !to && !opts.memoryPath) {
+      const other = resolveLayers().find((l) => l.memoryPath !== mp && readTarget(l.memoryPath, opts.to).record);
+      if (other) throw new Error(`Cross-layer links are not supported: ${opts.to} is in the ${other.scope} store, ${opts.from} is not.`);
+    }
+    if (!from || !to) return { found: false, changed: false };
+    if (from.id === to.id) throw new Error("Cannot link a memory to itself.");
+
+    const links = from.links || [];
+    const idx = links.findIndex((l) => l.type === type && l.target === to.id);
+    if (opts.remove) {
+      if (idx < 0) return { found: true, changed: false, record: from };
+      links.splice(idx, 1);
+      if (links.length === 0) delete from.links;
+      from.updatedAt = nowIso();
+      writeStore(mp, records, { updated: [from], source: opts.source });
+      return { found: true, changed: true, record: from };
+    }
+
+    if (from.deletedAt || to.deletedAt) throw new Error(`Cannot link a deleted memory: ${from.deletedAt ? from.id : to.id}`);
+    if (idx >= 0) return { found: true, changed: false, record: from };
+    from.links = [...links, { type, target: to.id, at: nowIso() }];
+    from.updatedAt = nowIso();
+    const changed = [from];
+    if (type === "supersedes" && to.adr && to.adr.status !== "superseded") {
+      const adr: AdrRecord = { ...to.adr, status: "superseded" };
+      applyRevision(to, { text: adrText(adr), tags: to.tags, adr }, "update", opts.source);
+      changed.push(to);
+    }
+    writeStore(mp, records, { updated: changed, source: opts.source });
+    return { found: true, changed: true, record: from };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Finds superseded memories: targets of a `supersedes` link from an active
+ * memory, and ADRs whose status is "superseded".
+ *
+ * @param records - Array of memory records
+ * @returns Map of superseded id to the ids of active memories superseding it
+ */
+export function supersededMap(records: MemoryRecord[]): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  for (const r of records) {
+    if (r.deletedAt) continue;
+    if (r.adr?.status === "superseded" && !out.has(r.id)) out.set(r.id, []);
+    for (const l of r.links || []) {
+      if (l.type !== "supersedes") continue;
+      const by = out.get(l.target) || [];
+      by.push(r.id);
+      out.set(l.target, by);
+    }
+  }
+  return out;
+}
+
+/**
+ * Returns the memories that should be checked for contradictions: those
+ * that are neither deleted, expired, nor superseded.
+ *
+ * @param records - Array of memory records
+ * @returns Candidate records
+ */
+export function conflictCandidates(records: MemoryRecord[]): MemoryRecord[] {
+  const superseded = supersededMap(records);
+  const now = Date.now();
+  return records.filter((r) => !r.deletedAt && !isExpired(r, now) && !superseded.has(r.id));
+}
+
+/**
+ * Finds likely contradictions among the store's live memories (see conflicts.ts).
+ *
+ * @param records - Array of memory records
+ * @returns Conflicting pairs
+ */
+export function findConflicts(records: MemoryRecord[]): Conflict[] {
+  return detectConflicts(conflictCandidates(records));
+}
+
+/**
+ * A memory's linked neighbours, in both directions.
+ */
+export type MemoryNeighbours = {
+  /** Links from this memory (target may be missing if it was purged) */
+  outgoing: Array<{ type: LinkType; id: string; record?: MemoryRecord }>;
+  /** Links from other active memories to this one */
+  incoming: Array<{ type: LinkType; id: string; record: MemoryRecord }>;
+};
+
+/**
+ * Collects the memories linked to or from a record.
+ *
+ * @param records - Array of memory records
+ * @param r - The memory record
+ * @returns Outgoing and incoming neighbours
+ */
+export function neighbours(records: MemoryRecord[], r: MemoryRecord): MemoryNeighbours {
+  const byId = new Map(records.map((x) => [x.id, x]));
+  const outgoing = (r.links || []).map((l) => ({ type: l.type, id: l.target, record: byId.get(l.target) }));
+  const incoming: MemoryNeighbours["incoming"] = [];
+  for (const x of records) {
+    if (x.deletedAt || x.id === r.id) continue;
+    for (const l of x.links || []) {
+      if (l.target === r.id) incoming.push({ type: l.type, id: x.id, record: x });
+    }
+  }
+  return { outgoing, incoming };
+}
+
+/**
+ * Pins or unpins a memory. Pinned memories are placed first in every
+ * compressed context block, whatever the query.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - Memory ID or ADR reference
+ * @param opts.pinned - true to pin, false to unpin
+ * @returns Whether the memory was found, whether anything changed, and the record
+ * @throws Error if pinning a deleted memory
+ */
+export async function setPinned(opts: { memoryPath?: string; id: string; pinned: boolean }): Promise<{ found: boolean; changed: boolean; record?: MemoryRecord }> {
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id);
+    if (!r) return { found: false, changed: false };
+    if (Boolean(r.pinned) === opts.pinned) return { found: true, changed: false, record: r };
+    if (opts.pinned && r.deletedAt) throw new Error(`Cannot pin a deleted memory: ${r.id}`);
+    if (opts.pinned) r.pinned = true;
+    else delete r.pinned;
+    r.updatedAt = nowIso();
+    writeStore(mp, records, { updated: [r] });
+    return { found: true, changed: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Lists active pinned memories, oldest first.
+ *
+ * @param records - Array of memory records
+ * @returns Pinned records that are neither deleted nor expired
+ */
+export function pinnedMemories(records: MemoryRecord[]): MemoryRecord[] {
+  const now = Date.now();
+  return records
+    .filter((r) => r.pinned && !r.deletedAt && !isExpired(r, now))
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+/**
+ * Sets, renews or clears a memory's expiry.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - Memory ID or ADR reference
+ * @param opts.expires - TTL ("14d") or date, or null to never expire
+ * @returns Object indicating if found and the updated record
+ * @throws Error if the memory is deleted or the expiry is invalid
+ */
+export async function setExpiry(opts: { memoryPath?: string; id: string; expires: string | null }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  const expiresAt = opts.expires === null ? null : parseExpiry(opts.expires);
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id);
+    if (!r) return { found: false };
+    if (r.deletedAt) throw new Error(`Cannot change the expiry of a deleted memory: ${r.id}`);
+    if (expiresAt) r.expiresAt = expiresAt;
+    else delete r.expiresAt;
+    r.updatedAt = nowIso();
+    writeStore(mp, records, { updated: [r] });
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Lists active memories that have an expiry, soonest (or longest expired) first.
+ *
+ * @param records - Array of memory records
+ * @returns Non-deleted records with expiresAt set, expired ones included
+ */
+export function expiringMemories(records: MemoryRecord[]): MemoryRecord[] {
+  return records
+    .filter((r) => r.expiresAt && !r.deletedAt)
+    .sort((a, b) => Date.parse(a.expiresAt!) - Date.parse(b.expiresAt!));
+}
+
+/**
+ * Soft-deletes a memory by setting its deletedAt timestamp.
+ * The record remains in the store but is excluded from searches.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - The memory ID to delete
+ * @returns Object indicating if found and the updated record
+ */
+export async function softDeleteById(opts: { memoryPath?: string; id: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id, "id");
+    if (!r) return { found: false };
+    if (!r.deletedAt) {
+      r.deletedAt = nowIso();
+      r.updatedAt = nowIso();
+      writeStore(mp, records, { softDeleted: [r] });
+    }
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Restores a soft-deleted memory by clearing its deletedAt tombstone.
+ * Restoring a memory that is not deleted is a no-op.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - The memory ID to restore
+ * @returns Object indicating if found and the restored record
+ */
+export async function restoreById(opts: { memoryPath?: string; id: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
+  const mp = resolvePathForId(opts.memoryPath, opts.id);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const { record: r, records } = readTarget(mp, opts.id, "id");
+    if (!r) return { found: false };
+    if (r.deletedAt) {
+      r.deletedAt = null;
+      r.updatedAt = nowIso();
+      writeStore(mp, records, { updated: [r] });
+    }
+    return { found: true, record: r };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/**
+ * Hard-deletes memories matching criteria (permanently removes from file).
+ * Exactly one of id, match, or tag must be provided.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.id - Delete by exact ID
+ * @param opts.match - Delete by substring match in text
+ * @param opts.tag - Delete by tag
+ * @param opts.dryRun - If true, returns what would be deleted without deleting
+ * @returns Object with count and IDs of purged records, and the backup taken first (if any)
+ * @throws Error if no criteria provided
+ */
+export async function purge(opts: { memoryPath?: string; id?: string; match?: string; tag?: string; dryRun?: boolean }): Promise<{ purged: number; ids: string[]; backup?: string }> {
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
+
+  const id = opts.id?.trim();
+  const match = opts.match?.trim();
+  const tag = opts.tag?.trim().toLowerCase();
+  if (!id && !match && !tag) throw new Error("purge requires one of: --id, --match, --tag");
+
+  await acquireLock(lock);
+  try {
+    const records = readRecords(mp);
+
+    const needle = (match || "").toLowerCase();
+    const predicate = id ? (r: MemoryRecord) => r.id === id
+      : tag ? (r: MemoryRecord) => r.tags.map((t) => t.toLowerCase()).includes(tag)
+      : (r: MemoryRecord) => (r.text || "").toLowerCase().includes(needle);
+
+    const ids = records.filter(predicate).map((r) => r.id);
+    if (opts.dryRun || ids.length === 0) return { purged: ids.length, ids };
+
+    const backup = backupStore(mp, records, "purge");
+    const kept = records.filter((r) => !predicate(r));
+    writeStore(mp, kept, { deleted: ids });
+    return { purged: ids.length, ids, backup };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/** Resolves the duplicate threshold from argument, env var, or default (0-1) */
+function resolveDuplicateThreshold(threshold?: number): number {
+  if (threshold !== undefined && Number.isFinite(threshold) && threshold > 0 && threshold <= 1) return threshold;
+  const env = Number.parseFloat(process.env.MEMORY_DUPLICATE_THRESHOLD?.trim() || "");
+  return Number.isFinite(env) && env > 0 && env <= 1 ? env : DEFAULT_DUPLICATE_THRESHOLD;
+}
+
+/**
+ * Finds active memories whose text is nearly the same as the given text.
+ *
+ * @param records - Array of memory records
+ * @param text - Text to compare against
+ * @param threshold - Minimum similarity, 0-1 (default MEMORY_DUPLICATE_THRESHOLD or 0.7)
+ * @returns Matches, most similar first
+ */
+export function findDuplicates(records: Array<Pick<MemoryRecord, "id" | "text" | "deletedAt">>, text: string, threshold?: number): DuplicateMatch[] {
+  const min = resolveDuplicateThreshold(threshold);
+  const target = shingles(text);
+  const out: DuplicateMatch[] = [];
+  for (const r of records) {
+    if (r.deletedAt) continue;
+    const similarity = jaccard(target, shingles(r.text));
+    if (similarity >= min) out.push({ id: r.id, text: r.text, similarity });
+  }
+  return out.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Groups active memories into clusters of near-duplicates. Only memories of
+ * the same kind are grouped, and ADRs are left alone. Each cluster keeps its
+ * oldest memory.
+ *
+ * @param records - Array of memory records
+ * @param threshold - Minimum similarity, 0-1 (default MEMORY_DUPLICATE_THRESHOLD or 0.7)
+ * @returns Clusters, in order of their kept memory's creation
+ */
+export function duplicateClusters(records: MemoryRecord[], threshold?: number): DuplicateCluster[] {
+  const min = resolveDuplicateThreshold(threshold);
+  const candidates = records
+    .filter((r) => !r.deletedAt && !r.adr)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const grams = candidates.map((r) => shingles(r.text));
+
+  // Union-find, so A~B and B~C end up in one cluster
+  const parent = candidates.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (candidates[i].kind !== candidates[j].kind) continue;
+      if (jaccard(grams[i], grams[j]) >= min) parent[Math.max(root(i), root(j))] = Math.min(root(i), root(j));
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (let i = 0; i < candidates.length; i++) {
+    const k = root(i);
+    if (k === i) continue;
+    let c = clusters.get(k);
+    if (!c) { c = { keep: candidates[k], drop: [] }; clusters.set(k, c); }
+    c.drop.push({ id: candidates[i].id, text: candidates[i].text, similarity: jaccard(grams[k], grams[i]) });
+  }
+  return Array.from(clusters.values());
+}
+
+/**
+ * Merges clusters of near-duplicate memories (see duplicateClusters).
+ *
+ * The kept memory gains the tags of the others (recorded as a revision) and
+ * stays pinned if any of them was; the others are soft-deleted and linked as
+ * superseded by it, so restoring one does not bring back a competing copy.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.threshold - Minimum similarity, 0-1 (default MEMORY_DUPLICATE_THRESHOLD or 0.7)
+ * @param opts.dryRun - If true, returns the clusters without merging
+ * @param opts.source - Where the change came from, stored on the revision (optional)
+ * @returns The clusters found, the number of memories merged away, and the backup taken first (if any)
+ */
+export async function dedupe(opts: { memoryPath?: string; threshold?: number; dryRun?: boolean; source?: string } = {}): Promise<{ clusters: DuplicateCluster[]; merged: number; backup?: string }> {
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
+
+  await acquireLock(lock);
+  try {
+    const records = readRecords(mp);
+    const clusters = duplicateClusters(records, opts.threshold);
+    if (opts.dryRun || clusters.length === 0) return { clusters, merged: 0 };
+
+    const backup = backupStore(mp, records, "dedupe");
+    const byId = new Map(records.map((r) => [r.id, r]));
+    const kept: MemoryRecord[] = [];
+    const dropped: MemoryRecord[] = [];
+    const now = nowIso();
+    for (const c of clusters) {
+      const keep = c.keep;
+      const drops = c.drop.map((d) => byId.get(d.id)!);
+      const tags = normalizeTags([...keep.tags, ...drops.flatMap((d) => d.tags)]);
+      if (tags.length !== keep.tags.length) applyRevision(keep, { text: keep.text, tags, adr: keep.adr }, "update", opts.source);
+      if (drops.some((d) => d.pinned)) keep.pinned = true;
+      keep.links = [...(keep.links || []), ...drops.map((d) => ({ type: "supersedes" as const, target: d.id, at: now }))];
+      keep.updatedAt = now;
+      for (const d of drops) {
+        d.deletedAt = now;
+        d.updatedAt = now;
+      }
+      kept.push(keep);
+      dropped.push(...drops);
+    }
+    writeStore(mp, records, { updated: kept, softDeleted: dropped, source: opts.source });
+    return { clusters, merged: dropped.length, backup };
+  } finally {
+    releaseLock(lock);
+  }
+}
+
+/** Resolves tombstone retention from argument, env var, or default (days) */
+function resolveRetentionDays(days?: number): number {
+  if (days !== undefined && Number.isFinite(days) && days >= 0) return days;
+  const env = Number.parseFloat(process.env.MEMORY_TOMBSTONE_RETENTION_DAYS?.trim() || "");
+  return Number.isFinite(env) && env >= 0 ? env : DEFAULT_TOMBSTONE_RETENTION_DAYS;
 }
 
-/** Reads and parses the JSON memory file, returns empty array if not exists */
-function readJsonArray(filePath: string): MemoryRecord[] {
-  if (!fs.existsSync(filePath)) return [];
-  const raw = fs.readFileSync(filePath, "utf-8").trim();
-  if (!raw) return [];
-  const data = JSON.parse(raw);
-  if (!Array.isArray(data)) throw new Error(`Memory file must be a JSON array: ${filePath}`);
-  return data as MemoryRecord[];
+/**
+ * Garbage-collects tombstones: hard-removes soft-deleted memories whose
+ * deletedAt is older than the retention window.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.retentionDays - Days to keep tombstones (default MEMORY_TOMBSTONE_RETENTION_DAYS or 30)
+ * @param opts.dryRun - If true, returns what would be removed without removing
+ * @returns Object with count and IDs of removed records, the retention applied, and the backup taken first (if any)
+ */
+export async function gcTombstones(opts: { memoryPath?: string; retentionDays?: number; dryRun?: boolean } = {}): Promise<{ purged: number; ids: string[]; retentionDays: number; backup?: string }> {
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
+  const retentionDays = resolveRetentionDays(opts.retentionDays);
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+  await acquireLock(lock);
+  try {
+    const records = readRecords(mp);
+    const expired = (r: MemoryRecord) => Boolean(r.deletedAt) && Date.parse(r.deletedAt!) <= cutoff;
+
+    const ids = records.filter(expired).map((r) => r.id);
+    if (opts.dryRun || ids.length === 0) return { purged: ids.length, ids, retentionDays };
+
+    const backup = backupStore(mp, records, "gc");
+    writeStore(mp, records.filter((r) => !expired(r)), { deleted: ids });
+    return { purged: ids.length, ids, retentionDays, backup };
+  } finally {
+    releaseLock(lock);
+  }
 }
 
-/** Writes data atomically using tmp file + rename pattern */
-function atomicWrite(filePath: string, data: any): void {
-  fs.mkdirSync(path.dirname(filePath), { recursive: true });
-  const tmp = `${filePath}.tmp.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
-  fs.writeFileSync(tmp, JSON.stringify(data, null, 2) + "\n", { encoding: "utf-8" });
-  fs.renameSync(tmp, filePath);
+/**
+ * Runs tombstone GC when the store is loaded at startup, if enabled via
+ * MEMORY_GC_ON_LOAD (1/true/yes).
+ *
+ * @param memoryPath - Optional path override
+ * @returns GC result, or null when automatic GC is disabled
+ */
+export async function maybeAutoGc(memoryPath?: string): Promise<{ purged: number; ids: string[]; retentionDays: number; backup?: string } | null> {
+  const flag = (process.env.MEMORY_GC_ON_LOAD || "").trim().toLowerCase();
+  if (!["1", "true", "yes"].includes(flag)) return null;
+  return gcTombstones({ memoryPath });
 }
 
 /**
- * Loads the memory store from disk.
+ * Lists a store's automatic backups, newest first.
  *
- * @param memoryPath - Optional path override (uses MEMORY_PATH env or default)
- * @returns Object containing resolved path and all records
+ * @param opts.memoryPath - Optional path override
+ * @returns The backup directory and its backups
  */
-export function loadStore(memoryPath?: string): { memoryPath: string; records: MemoryRecord[] } {
-  const mp = resolveMemoryPath(memoryPath);
-  const records = readJsonArray(mp);
-  return { memoryPath: mp, records };
+export function listBackups(opts: { memoryPath?: string } = {}): { dir: string; backups: BackupInfo[] } {
+  const dir = resolveBackupDir(resolveMemoryPath(opts.memoryPath));
+  return { dir, backups: listBackupFiles(dir) };
 }
 
 /**
- * Adds a new memory to the store.
- * Automatically extracts keywords from text for improved search.
+ * Replaces a store's records with those of one of its backups. The current
+ * records are backed up first, so a restore can itself be undone.
  *
  * @param opts.memoryPath - Optional path override
- * @param opts.text - The memory content (required)
- * @param opts.tags - Optional tags for categorization
- * @returns The created memory record
- * @throws Error if text is empty
+ * @param opts.name - Backup name (see listBackups), or "latest"
+ * @param opts.source - Where the change came from, for the journal (optional)
+ * @returns The backup restored, the number of records restored, and the backup of the replaced records (if any)
+ * @throws Error if the backup does not exist
  */
-export async function addMemory(opts: { memoryPath?: string; text: string; tags?: string[] }): Promise<MemoryRecord> {
-  const tags = normalizeTags(opts.tags);
+export async function restoreBackup(opts: { memoryPath?: string; name: string; source?: string }): Promise<{ name: string; restored: number; backup?: string }> {
   const mp = resolveMemoryPath(opts.memoryPath);
   const lock = resolveLockPath(mp);
+  const wanted = opts.name.trim().replace(/\.json$/i, "");
 
   await acquireLock(lock);
   try {
-    const records = readJsonArray(mp);
-    const t = opts.text.trim();
-    if (!t) throw new Error("Cannot add an empty memory.");
-    const keywords = extractKeywords(t);
-    const rec: MemoryRecord = {
-      id: makeId(),
-      text: t,
-      tags,
-      keywords,
-      createdAt: nowIso(),
-      updatedAt: nowIso(),
-      deletedAt: null
-    };
-    records.push(rec);
-    atomicWrite(mp, records);
-    return rec;
+    const backups = listBackupFiles(resolveBackupDir(mp));
+    const found = wanted === "latest" ? backups[0] : backups.find((b) => b.name === wanted);
+    if (!found) throw new Error(backups.length === 0 ? `No backups for ${mp}` : `Backup not found: ${opts.name}`);
+
+    // Backups are bare arrays, i.e. schema version 1
+    const restored = readBackup(found.path);
+    migrateRecords(restored, 1);
+    const current = readRecords(mp);
+    const backup = backupStore(mp, current, "restore");
+    writeStore(mp, restored, { deleted: current.map((r) => r.id), appended: restored, source: opts.source });
+    return { name: found.name, restored: restored.length, backup };
   } finally {
     releaseLock(lock);
   }
 }
 
 /**
- * Soft-deletes a memory by setting its deletedAt timestamp.
- * The record remains in the store but is excluded from searches.
+ * Copies every record (tombstones and revision history included) from one
+ * store file to another, typically to switch backends. The source is left
+ * untouched; point MEMORY_PATH or MEMORY_BACKEND at the target to use it.
  *
- * @param opts.memoryPath - Optional path override
- * @param opts.id - The memory ID to delete
- * @returns Object indicating if found and the updated record
+ * @param opts.from - Source store path (default: the project store)
+ * @param opts.to - Target store path, or a backend name ("sqlite", "json") to use the source path with that backend's extension
+ * @returns Number of records copied and the resolved paths
+ * @throws Error if source and target are the same file, the source is missing, or the target already has records
  */
-export async function softDeleteById(opts: { memoryPath?: string; id: string }): Promise<{ found: boolean; record?: MemoryRecord }> {
-  const mp = resolveMemoryPath(opts.memoryPath);
-  const lock = resolveLockPath(mp);
+export async function migrateBackend(opts: { from?: string; to: string }): Promise<{ copied: number; from: string; to: string }> {
+  const from = resolveMemoryPath(opts.from);
+  const target = opts.to.trim();
+  const to = (BACKENDS as readonly string[]).includes(target.toLowerCase())
+    ? path.join(path.dirname(from), path.basename(from, path.extname(from)) + backendExtension(parseBackend(target)))
+    : resolveMemoryPath(target);
+  if (to === from) throw new Error(`Source and target are the same file: ${from}`);
+  if (!fs.existsSync(from)) throw new Error(`Source store does not exist: ${from}`);
+
+  const sourceLock = resolveLockPath(from);
+  await acquireLock(sourceLock);
+  let records: MemoryRecord[];
+  try {
+    records = readRecords(from);
+  } finally {
+    releaseLock(sourceLock);
+  }
+
+  await copyInto(to, records);
+  return { copied: records.length, from, to };
+}
 
+/** Writes records into a new (missing or empty) store file */
+async function copyInto(to: string, records: MemoryRecord[]): Promise<void> {
+  const lock = resolveLockPath(to);
   await acquireLock(lock);
   try {
-    const records = readJsonArray(mp);
-    const idx = records.findIndex((r) => r.id === opts.id);
-    if (idx < 0) return { found: false };
-    const r = records[idx];
-    if (!r.deletedAt) {
-      r.deletedAt = nowIso();
-      r.updatedAt = nowIso();
-      records[idx] = r;
-      atomicWrite(mp, records);
-    }
-    return { found: true, record: r };
+    if (readRecords(to).length > 0) throw new Error(`Target store already has records: ${to}`);
+    writeStore(to, records, { appended: records });
   } finally {
     releaseLock(lock);
   }
 }
 
 /**
- * Hard-deletes memories matching criteria (permanently removes from file).
- * Exactly one of id, match, or tag must be provided.
+ * Reads the journal of a store.
  *
  * @param opts.memoryPath - Optional path override
- * @param opts.id - Delete by exact ID
- * @param opts.match - Delete by substring match in text
- * @param opts.tag - Delete by tag
- * @param opts.dryRun - If true, returns what would be deleted without deleting
- * @returns Object with count and IDs of purged records
- * @throws Error if no criteria provided
+ * @param opts.limit - Only the most recent entries (default all)
+ * @returns Journal entries, oldest first, and the journal path
+ */
+export function readStoreJournal(opts: { memoryPath?: string; limit?: number } = {}): { journalPath: string; entries: JournalEntry[] } {
+  const journalPath = resolveJournalPath(resolveMemoryPath(opts.memoryPath));
+  const entries = readJournal(journalPath);
+  return { journalPath, entries: opts.limit ? entries.slice(-opts.limit) : entries };
+}
+
+/**
+ * Reconstructs a store as it was at a past moment by replaying its journal.
+ * The live store is not changed; pass `out` to save the result as a new
+ * store file (its extension picks the backend).
+ *
+ * @param opts.memoryPath - Optional path override
+ * @param opts.until - ISO timestamp or date to replay up to, inclusive (default: everything)
+ * @param opts.out - Optional path of a new store file to write the result to
+ * @returns The reconstructed records, entries applied, and the resolved output path
+ * @throws Error if the timestamp is invalid, the store has no journal, it starts after `until`, or `out` already has records
  */
-export async function purge(opts: { memoryPath?: string; id?: string; match?: string; tag?: string; dryRun?: boolean }): Promise<{ purged: number; ids: string[] }> {
+export async function replayStore(opts: { memoryPath?: string; until?: string; out?: string } = {}): Promise<ReplayResult & { out?: string }> {
   const mp = resolveMemoryPath(opts.memoryPath);
-  const lock = resolveLockPath(mp);
+  const until = opts.until ? Date.parse(opts.until) : undefined;
+  if (until !== undefined && Number.isNaN(until)) throw new Error(`Invalid timestamp: ${opts.until} (expected an ISO timestamp or YYYY-MM-DD)`);
+  const entries = readJournal(resolveJournalPath(mp));
+  if (entries.length === 0) throw new Error(`No journal for ${mp}; it starts with the next change.`);
+  const result = replayJournal(entries, until);
+  // Entries written before the store was last upgraded hold older records
+  migrateRecords(result.records, 1);
+  if (!opts.out) return result;
 
-  const id = opts.id?.trim();
-  const match = opts.match?.trim();
-  const tag = opts.tag?.trim().toLowerCase();
-  if (!id && !match && !tag) throw new Error("purge requires one of: --id, --match, --tag");
+  const out = resolveMemoryPath(opts.out);
+  if (out === mp) throw new Error("Replay output must not be the live store.");
+  await copyInto(out, result.records);
+  return { ...result, out };
+}
+
+/**
+ * Compacts a store's journal: replaces it with a snapshot of the current
+ * records. States before the compaction can no longer be replayed.
+ *
+ * @param opts.memoryPath - Optional path override
+ * @returns Number of entries removed and records in the snapshot
+ */
+export async function compactJournal(opts: { memoryPath?: string } = {}): Promise<{ removed: number; records: number }> {
+  const mp = resolveMemoryPath(opts.memoryPath);
+  const lock = resolveLockPath(mp);
 
   await acquireLock(lock);
   try {
-    const records = readJsonArray(mp);
-
-    let predicate: (r: MemoryRecord) => boolean;
-    if (id) predicate = (r) => r.id === id;
-    else if (tag) predicate = (r) => r.tags.map((t) => t.toLowerCase()).includes(tag);
-    else {
-      const needle = match!.toLowerCase();
-      predicate = (r) => (r.text || "").toLowerCase().includes(needle);
-    }
-
-    const ids = records.filter(predicate).map((r) => r.id);
-    if (opts.dryRun) return { purged: ids.length, ids };
-
-    const kept = records.filter((r) => !predicate(r));
-    atomicWrite(mp, kept);
-    return { purged: ids.length, ids };
+    const jp = resolveJournalPath(mp);
+    const removed = readJournal(jp).length;
+    const records = readRecords(mp);
+    writeSnapshot(jp, { at: nowIso(), op: "snapshot", by: path.basename(process.argv[1] || "node"), pid: process.pid, records });
+    return { removed, records: records.length };
   } finally {
     releaseLock(lock);
   }
@@ -340,12 +1997,115 @@ export async function purge(opts: { memoryPath?: string; id?: string; match?: st
  */
 export function computeStats(records: MemoryRecord[]): StoreStats {
   const tags: Record<string, number> = {};
+  const kinds: Record<string, number> = {};
+  const now = Date.now();
+  const layers: Record<string, number> = {};
   let deleted = 0;
+  let expired = 0;
   for (const r of records) {
     if (r.deletedAt) deleted += 1;
+    else {
+      if (r.kind) kinds[r.kind] = (kinds[r.kind] || 0) + 1;
+      if (r.layer) layers[r.layer] = (layers[r.layer] || 0) + 1;
+      if (isExpired(r, now)) expired += 1;
+    }
     for (const t of r.tags || []) tags[t] = (tags[t] || 0) + 1;
   }
-  return { total: records.length, active: records.length - deleted, deleted, tags };
+  return { total: records.length, active: records.length - deleted, deleted, expired, tags, kinds, layers };
+}
+
+/** Structured query fields recognized by parseQuery */
+const QUERY_FIELDS = new Set(["tag", "kind", "id", "after", "before"]);
+
+/** Parses a query date (YYYY-MM-DD or full ISO timestamp) to epoch ms */
+function parseQueryDate(field: string, value: string): number {
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid query: ${field}: expects a date like 2025-01-31, got "${value}"`);
+  return ms;
+}
+
+/**
+ * Parses a search query into free text and structured filters.
+ *
+ * @param query - Raw query string
+ * @returns ParsedQuery with terms, phrases, and filters
+ * @throws Error with a descriptive message on invalid syntax
+ *
+ * @example
+ * parseQuery('tag:decision -tag:deprecated "event sourcing" -kafka after:2025-01-01')
+ * parseQuery('kind:todo -kind:episode auth')
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const pq: ParsedQuery = { terms: [], phrases: [], exclude: [], tags: [], excludeTags: [], kinds: [], excludeKinds: [], ids: [], excludeIds: [] };
+  const src = query.trim();
+  let i = 0;
+
+  /** Reads a quoted string starting at src[i] === '"' */
+  const readQuoted = (): string => {
+    const end = src.indexOf('"', i + 1);
+    if (end < 0) throw new Error(`Invalid query: unterminated quote starting at position ${i + 1}`);
+    const value = src.slice(i + 1, end);
+    i = end + 1;
+    if (!value.trim()) throw new Error("Invalid query: empty phrase \"\"");
+    return value.trim();
+  };
+
+  while (i < src.length) {
+    if (/\s/.test(src[i])) { i++; continue; }
+
+    let neg = false;
+    if (src[i] === "-") {
+      if (i + 1 >= src.length || /\s/.test(src[i + 1])) throw new Error(`Invalid query: "-" at position ${i + 1} must be followed by a word, phrase or filter`);
+      neg = true;
+      i++;
+    }
+
+    if (src[i] === '"') {
+      const phrase = readQuoted();
+      (neg ? pq.exclude : pq.phrases).push(phrase);
+      continue;
+    }
+
+    const start = i;
+    while (i < src.length && !/\s/.test(src[i]) && src[i] !== '"') i++;
+    const word = src.slice(start, i);
+    const colon = word.indexOf(":");
+    const field = colon > 0 ? word.slice(0, colon).toLowerCase() : "";
+
+    if (!QUERY_FIELDS.has(field)) {
+      if (src[i] === '"') throw new Error(`Invalid query: unexpected quote after "${word}" (unknown field?)`);
+      (neg ? pq.exclude : pq.terms).push(word);
+      continue;
+    }
+
+    let value = word.slice(colon + 1);
+    if (!value && src[i] === '"') value = readQuoted();
+    if (!value) throw new Error(`Invalid query: ${field}: needs a value`);
+
+    if (field === "tag") (neg ? pq.excludeTags : pq.tags).push(value.toLowerCase());
+    else if (field === "kind") {
+      const k = MEMORY_KINDS.find((x) => x === value.toLowerCase());
+      if (!k) throw new Error(`Invalid query: kind: expects one of ${MEMORY_KINDS.join(", ")}, got "${value}"`);
+      (neg ? pq.excludeKinds : pq.kinds).push(k);
+    } else if (field === "id") (neg ? pq.excludeIds : pq.ids).push(value);
+    else {
+      if (neg) throw new Error(`Invalid query: ${field}: cannot be negated`);
+      const ms = parseQueryDate(field, value);
+      if (field === "after") pq.after = ms;
+      else pq.before = ms;
+    }
+  }
+
+  if (pq.after !== undefined && pq.before !== undefined && pq.after >= pq.before) {
+    throw new Error("Invalid query: after: must be earlier than before:");
+  }
+  return pq;
+}
+
+/** Treats a query as plain words with no filters, for free-form text such as task descriptions */
+function plainQuery(query: string): ParsedQuery {
+  const terms = query.split(/\s+/).filter(Boolean);
+  return { terms, phrases: [], exclude: [], tags: [], excludeTags: [], kinds: [], excludeKinds: [], ids: [], excludeIds: [] };
 }
 
 /** Escapes special regex characters in a string */
@@ -353,6 +2113,68 @@ function escapeRe(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+/** Returns true if the record satisfies every structured filter in the query */
+function matchesQuery(r: MemoryRecord, pq: ParsedQuery): boolean {
+  const tags = r.tags.map((t) => t.toLowerCase());
+  if (pq.tags.some((t) => !tags.includes(t))) return false;
+  if (pq.excludeTags.some((t) => tags.includes(t))) return false;
+  if (pq.kinds.length > 0 && !(r.kind && pq.kinds.includes(r.kind))) return false;
+  if (r.kind && pq.excludeKinds.includes(r.kind)) return false;
+  if (pq.ids.length > 0 && !pq.ids.includes(r.id)) return false;
+  if (pq.excludeIds.includes(r.id)) return false;
+
+  const created = Date.parse(r.createdAt);
+  if (pq.after !== undefined && !(created >= pq.after)) return false;
+  if (pq.before !== undefined && !(created < pq.before)) return false;
+
+  const text = (r.text || "").toLowerCase();
+  if (pq.phrases.some((ph) => !text.includes(ph.toLowerCase()))) return false;
+
+  const haystack = `${text} ${tags.join(" ")}`;
+  for (const ex of pq.exclude) {
+    const re = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRe(ex.toLowerCase())}($|[^\\p{L}\\p{N}])`, "u");
+    if (re.test(haystack)) return false;
+  }
+  return true;
+}
+
+/** Recency bonus: 5 points for brand-new records, decaying to 0 over 150 days */
+function recencyBonus(r: MemoryRecord): number {
+  const ageMs = Date.now() - Date.parse(r.updatedAt || r.createdAt);
+  const days = ageMs / (1000 * 60 * 60 * 24);
+  return Math.max(0, 5 - Math.min(5, days / 30));
+}
+
+/** Points per text hit of a stem/typo expansion (vs 5 for an exact hit) */
+const FUZZY_TEXT_POINTS = 2;
+/** Bonus when a tag matches a stem/typo expansion (vs 8 for an exact tag) */
+const FUZZY_TAG_BONUS = 4;
+/** Bonus when a keyword matches a stem/typo expansion (vs 6 for an exact keyword) */
+const FUZZY_KEYWORD_BONUS = 3;
+/** BM25 weight of an expanded term relative to an exact query term */
+const FUZZY_BM25_FACTOR = 0.5;
+
+/**
+ * Approximate matches for one query token, precomputed for scoring.
+ */
+type FuzzyToken = {
+  /** Vocabulary words matching by stem or within the typo bound */
+  terms: Set<string>;
+  /** Best substring hit count among the expansions, per record id */
+  hits: Map<string, number>;
+};
+
+/** Collects the keyword/tag vocabulary of active records for fuzzy expansion */
+function keywordVocabulary(records: MemoryRecord[]): Set<string> {
+  const vocab = new Set<string>();
+  for (const r of records) {
+    if (r.deletedAt) continue;
+    for (const k of r.keywords || []) vocab.add(k);
+    for (const t of r.tags) vocab.add(t.toLowerCase());
+  }
+  return vocab;
+}
+
 /**
  * Calculates relevance score for a record against a query.
  *
@@ -362,50 +2184,267 @@ function escapeRe(s: string): string {
  * - +6 points per extracted keyword match
  * - +0-5 points for recency (newer = higher)
  *
+ * With fuzzy matching, a token that misses exactly can still earn reduced
+ * points through its stem/typo expansions: +2 per text hit, +4 for a tag,
+ * +3 for a keyword.
+ *
  * @param r - The memory record to score
- * @param query - The search query
+ * @param tokens - Lowercase query tokens
+ * @param textHits - Per-token substring hit counts from the search index
+ * @param fuzzy - Per-token expansions, or null when fuzzy matching is off
  * @returns Numeric relevance score (0 = no match)
  */
-function scoreRecord(r: MemoryRecord, query: string): number {
-  const q = query.trim().toLowerCase();
-  if (!q) return 0;
-  const text = (r.text || "").toLowerCase();
+function scoreRecord(r: MemoryRecord, tokens: string[], textHits: Map<string, number>[], fuzzy: FuzzyToken[] | null): number {
+  if (tokens.length === 0) return 0;
   let score = 0;
 
-  const tokens = q.split(/\s+/).filter(Boolean);
-  for (const tok of tokens) {
-    const re = new RegExp(escapeRe(tok), "g");
-    const hits = text.match(re)?.length || 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    const hits = textHits[i].get(r.id) || 0;
     score += hits * 5;
+    const f = fuzzy?.[i];
+    if (f && hits === 0) score += (f.hits.get(r.id) || 0) * FUZZY_TEXT_POINTS;
     // Tag match bonus
     if (r.tags.some((t) => t.toLowerCase() === tok)) score += 8;
+    else if (f && r.tags.some((t) => f.terms.has(t.toLowerCase()))) score += FUZZY_TAG_BONUS;
     // Keyword match bonus (extracted keywords are pre-indexed)
     if (r.keywords?.some((k) => k === tok)) score += 6;
+    else if (f && r.keywords?.some((k) => f.terms.has(k))) score += FUZZY_KEYWORD_BONUS;
   }
 
-  const ageMs = Date.now() - Date.parse(r.updatedAt || r.createdAt);
-  const days = ageMs / (1000 * 60 * 60 * 24);
-  const recency = Math.max(0, 5 - Math.min(5, days / 30));
-  score += recency;
+  score += recencyBonus(r);
 
   return score;
 }
 
+/** Default BM25 field weights: tags are curated, so they count most */
+export const DEFAULT_BM25_WEIGHTS: FieldWeights = { text: 1, tags: 2, keywords: 1.5 };
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 length normalization strength */
+const BM25_B = 0.75;
+/** Scales BM25 scores into roughly the legacy scorer's range */
+const BM25_SCORE_SCALE = 5;
+
+/**
+ * Scores active records with BM25F over the text, tags, and keywords fields.
+ *
+ * Each field's term frequency is length-normalized against that field's
+ * average length, weighted, and summed before saturation. Matching is by
+ * whole word tokens, so "test" does not match "latest". With fuzzy matching,
+ * stem/typo expansions of each query term are added at reduced weight.
+ *
+ * @param records - Array of memory records
+ * @param query - The search query
+ * @param index - Search index for the records
+ * @param weights - Per-field weights
+ * @param fuzzy - Whether to add stem/typo expansions
+ * @returns Map of record id to score (records with no match are omitted)
+ */
+function scoreBm25(records: MemoryRecord[], query: string, index: SearchIndex, weights: FieldWeights, fuzzy: boolean): Map<string, number> {
+  const scores = new Map<string, number>();
+  const exact = Array.from(new Set(wordTokens(query)));
+  if (exact.length === 0) return scores;
+
+  // term -> query weight (1 for exact terms, FUZZY_BM25_FACTOR for expansions)
+  const terms = new Map(exact.map((t) => [t, 1]));
+  if (fuzzy) {
+    const vocab = new Set(wordTokens(Array.from(keywordVocabulary(records)).join(" ")));
+    for (const t of exact) {
+      for (const e of expandToken(t, vocab)) {
+        if (!terms.has(e.term)) terms.set(e.term, FUZZY_BM25_FACTOR);
+      }
+    }
+  }
+
+  const active = records.filter((r) => !r.deletedAt);
+  const n = active.length;
+  const tagToks = new Map(active.map((r) => [r.id, wordTokens(r.tags.join(" "))]));
+  const kwToks = new Map(active.map((r) => [r.id, wordTokens((r.keywords || []).join(" "))]));
+  const avg = (m: Map<string, string[]>) => n === 0 ? 0 : Array.from(m.values()).reduce((a, t) => a + t.length, 0) / n;
+  const avgText = averageLength(index);
+  const avgTags = avg(tagToks);
+  const avgKw = avg(kwToks);
+  const norm = (tf: number, len: number, avgLen: number) => avgLen > 0 ? tf / (1 - BM25_B + BM25_B * (len / avgLen)) : tf;
+
+  for (const [term, queryWeight] of terms) {
+    const textTf = wordHits(index, term);
+    const weighted = new Map<string, number>();
+    for (const r of active) {
+      const tags = tagToks.get(r.id)!;
+      const kws = kwToks.get(r.id)!;
+      const tfText = textTf.get(r.id) || 0;
+      const tfTags = tags.filter((t) => t === term).length;
+      const tfKw = kws.filter((k) => k === term).length;
+      if (tfText + tfTags + tfKw === 0) continue;
+      const tf =
+        weights.text * norm(tfText, index.lengths[r.id] ?? 0, avgText) +
+        weights.tags * norm(tfTags, tags.length, avgTags) +
+        weights.keywords * norm(tfKw, kws.length, avgKw);
+      if (tf > 0) weighted.set(r.id, tf);
+    }
+
+    const df = weighted.size;
+    if (df === 0) continue;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    for (const [id, tf] of weighted) {
+      scores.set(id, (scores.get(id) || 0) + queryWeight * BM25_SCORE_SCALE * idf * (tf / (BM25_K1 + tf)));
+    }
+  }
+  return scores;
+}
+
+/** Score multiplier for superseded memories when search demotes them */
+const SUPERSEDED_FACTOR = 0.2;
+
+/** Default share of the hybrid score that comes from vector similarity */
+const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+/** Minimum cosine similarity for a record to count as a semantic match */
+const MIN_COSINE = 0.18;
+/** Scales blended hybrid scores (0-1) into the legacy scorer's range */
+const HYBRID_SCORE_SCALE = 25;
+
+/**
+ * Scores active records by blending BM25 with vector cosine similarity.
+ *
+ * BM25 scores are normalized by the best match so both signals lie in 0-1.
+ * Records with no keyword hit can still match on similarity alone, as long
+ * as it clears MIN_COSINE.
+ *
+ * @param records - Array of memory records
+ * @param query - The search query
+ * @param index - Search index for the records
+ * @param weights - BM25 per-field weights
+ * @param semanticWeight - Share of the score from similarity (0-1)
+ * @param fuzzy - Whether BM25 adds stem/typo expansions
+ * @returns Map of record id to score (records with no match are omitted)
+ */
+function scoreHybrid(records: MemoryRecord[], query: string, index: SearchIndex, weights: FieldWeights, semanticWeight: number, fuzzy: boolean): Map<string, number> {
+  const alpha = Math.max(0, Math.min(1, semanticWeight));
+  const keyword = scoreBm25(records, query, index, weights, fuzzy);
+  const maxKeyword = Math.max(0, ...keyword.values());
+  const qv = embed(wordTokens(query));
+
+  const scores = new Map<string, number>();
+  for (const r of records) {
+    if (r.deletedAt) continue;
+    const kw = maxKeyword > 0 ? (keyword.get(r.id) || 0) / maxKeyword : 0;
+    const sim = qv.length ? cosine(qv, index.vectors[r.id] || []) : 0;
+    if (kw === 0 && sim < MIN_COSINE) continue;
+    scores.set(r.id, HYBRID_SCORE_SCALE * ((1 - alpha) * kw + alpha * sim));
+  }
+  return scores;
+}
+
+/** Builds a search hit from a record */
+function toHit(r: MemoryRecord, score: number, supersededBy?: string[]): SearchHit {
+  return { id: r.id, text: r.text, tags: r.tags, keywords: r.keywords || [], createdAt: r.createdAt, updatedAt: r.updatedAt, kind: r.kind, adr: r.adr, supersededBy, pinned: r.pinned, expiresAt: r.expiresAt, layer: r.layer, score };
+}
+
+/**
+ * Counts occurrences of a query token in each active record's text. Records
+ * loaded from a SQLite store are narrowed to the candidates its trigram
+ * index returns and counted in their text; otherwise the JSON index answers
+ * when it can (see substringHits), and the texts are scanned when it cannot,
+ * which only tokens with punctuation need.
+ */
+function substringCounts(records: MemoryRecord[], index: SearchIndex, tok: string): Map<string, number> {
+  const candidates = storageCache.get(records)?.containing(tok);
+  const indexed = candidates ? null : substringHits(index, tok);
+  if (indexed) return indexed;
+  const wanted = candidates ? new Set(candidates) : null;
+  const out = new Map<string, number>();
+  for (const r of records) {
+    if (r.deletedAt || (wanted && !wanted.has(r.id))) continue;
+    const n = countOccurrences((r.text || "").toLowerCase(), tok);
+    if (n > 0) out.set(r.id, n);
+  }
+  return out;
+}
+
 /**
  * Searches memories by query with relevance ranking.
+ * Text hits come from the inverted index rather than rescanning every record.
+ *
+ * The query may mix free text with structured filters (see parseQuery):
+ * filters narrow the candidates, free text and phrases drive the ranking.
+ * With opts.syntax false the query is taken as plain words and never rejected.
+ * A filter-only query returns every match, most recently updated first.
+ * Superseded memories score a fifth of normal by default (see supersededMap).
+ * Memories loaded from several layers are scaled by their layer's weight
+ * (MEMORY_LAYER_WEIGHTS). Expired memories are never returned.
  *
  * @param records - Array of memory records to search
- * @param query - Search query (space-separated keywords)
+ * @param query - Search query (free text plus optional filters)
  * @param limit - Maximum results to return (default 10)
+ * @param opts - Ranker selection, BM25 field weights, fuzzy matching, and handling of superseded memories
  * @returns Array of search hits sorted by score descending
+ * @throws Error if the query syntax is invalid (unless opts.syntax is false) or the ranker is unknown
  */
-export function search(records: MemoryRecord[], query: string, limit = 10): SearchHit[] {
+export function search(records: MemoryRecord[], query: string, limit = 10, opts: SearchOptions = {}): SearchHit[] {
+  const ranker = opts.ranker ?? "legacy";
+  if (!RANKERS.includes(ranker)) throw new Error(`Unknown ranker: ${ranker} (expected one of: ${RANKERS.join(", ")})`);
+  const pq = opts.syntax === false ? plainQuery(query) : parseQuery(query);
+  const freeText = [...pq.terms, ...pq.phrases].join(" ");
+  const index = indexFor(records);
+  const superseded = supersededMap(records);
+  const mode = opts.superseded ?? "demote";
+  const hit = (r: MemoryRecord, score: number) => toHit(r, score, superseded.get(r.id));
+  const layerWeights = records.some((r) => r.layer) ? resolveLayerWeights() : null;
+  const adjust = (r: MemoryRecord, score: number) => {
+    const s = mode === "demote" && superseded.has(r.id) ? score * SUPERSEDED_FACTOR : score;
+    return layerWeights && r.layer ? s * layerWeights[r.layer] : s;
+  };
+  const now = Date.now();
+
+  if (!freeText.trim()) {
+    const hasFilters = pq.tags.length + pq.excludeTags.length + pq.kinds.length + pq.excludeKinds.length + pq.ids.length + pq.excludeIds.length + pq.exclude.length > 0
+      || pq.after !== undefined || pq.before !== undefined;
+    if (!hasFilters) return [];
+    const hits = records
+      .filter((r) => !r.deletedAt && !isExpired(r, now) && !(mode === "exclude" && superseded.has(r.id)) && matchesQuery(r, pq))
+      .sort((a, b) => Date.parse(b.updatedAt || b.createdAt) - Date.parse(a.updatedAt || a.createdAt))
+      .map((r) => hit(r, adjust(r, recencyBonus(r))));
+    if (mode === "demote") hits.sort((a, b) => Number(Boolean(a.supersededBy)) - Number(Boolean(b.supersededBy)));
+    return hits.slice(0, Math.max(1, limit));
+  }
+
+  const weights = { ...DEFAULT_BM25_WEIGHTS, ...opts.weights };
+  const fuzzy = opts.fuzzy ?? true;
+  const ranked = ranker === "bm25" ? scoreBm25(records, freeText, index, weights, fuzzy)
+    : ranker === "hybrid" ? scoreHybrid(records, freeText, index, weights, opts.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT, fuzzy)
+    : null;
+  const tokens = ranked ? [] : freeText.toLowerCase().split(/\s+/).filter(Boolean);
+  const byToken = new Map<string, Map<string, number>>();
+  const hitsFor = (tok: string) => {
+    let m = byToken.get(tok);
+    if (!m) { m = substringCounts(records, index, tok); byToken.set(tok, m); }
+    return m;
+  };
+  const textHits = tokens.map(hitsFor);
+
+  let fuzzyTokens: FuzzyToken[] | null = null;
+  if (fuzzy && tokens.length > 0) {
+    const vocab = keywordVocabulary(records);
+    fuzzyTokens = tokens.map((tok) => {
+      const terms = new Set(expandToken(tok, vocab).map((e) => e.term));
+      const hits = new Map<string, number>();
+      for (const term of terms) {
+        for (const [id, n] of hitsFor(term)) hits.set(id, Math.max(hits.get(id) || 0, n));
+      }
+      return { terms, hits };
+    });
+  }
+
   const hits: SearchHit[] = [];
   for (const r of records) {
-    if (r.deletedAt) continue;
-    const s = scoreRecord(r, query);
+    if (r.deletedAt || isExpired(r, now)) continue;
+    if (mode === "exclude" && superseded.has(r.id)) continue;
+    const s = ranked ? (ranked.get(r.id) || 0) : scoreRecord(r, tokens, textHits, fuzzyTokens);
     if (s <= 0) continue;
-    hits.push({ id: r.id, text: r.text, tags: r.tags, keywords: r.keywords || [], createdAt: r.createdAt, updatedAt: r.updatedAt, score: s });
+    if (!matchesQuery(r, pq)) continue;
+    hits.push(hit(r, adjust(r, s)));
   }
   hits.sort((a, b) => b.score - a.score);
   return hits.slice(0, Math.max(1, limit));
@@ -415,10 +2454,10 @@ export function search(records: MemoryRecord[], query: string, limit = 10): Sear
  * Exports all records as formatted JSON string.
  *
  * @param records - Array of memory records
- * @returns Pretty-printed JSON string
+ * @returns Pretty-printed JSON string (without layer labels)
  */
 export function exportJson(records: MemoryRecord[]): string {
-  return JSON.stringify(records, null, 2) + "\n";
+  return JSON.stringify(records.map((r) => ({ ...r, layer: undefined })), null, 2) + "\n";
 }
 
 /**
@@ -441,9 +2480,19 @@ export function formatSearchResults(hits: SearchHit[], query: string): string {
     const h = hits[i];
     const relevance = h.score >= 20 ? "high" : h.score >= 10 ? "medium" : "low";
 
-    lines.push(`### ${i + 1}. ${h.text}`);
+    if (h.adr) {
+      lines.push(`### ${i + 1}. [decision] ${adrLabel(h.adr.number)}: ${h.adr.title} (${h.adr.status})`);
+      lines.push(`> ${h.adr.decision}`);
+    } else {
+      lines.push(`### ${i + 1}. ${h.kind ? `[${h.kind}] ` : ""}${h.text}`);
+    }
 
     const meta: string[] = [];
+    if (h.pinned) meta.push("Pinned");
+    if (h.layer) meta.push(`Layer: ${h.layer}`);
+    if (h.kind === "episode") meta.push(`When: ${h.createdAt.slice(0, 10)}`);
+    if (h.expiresAt) meta.push(`Expires: ${h.expiresAt.slice(0, 10)}`);
+    if (h.supersededBy) meta.push(h.supersededBy.length ? `Superseded by: ${h.supersededBy.map((id) => `\`${id}\``).join(", ")}` : "Superseded");
     if (h.tags.length) meta.push(`Tags: ${h.tags.join(", ")}`);
     if (h.keywords.length) meta.push(`Keywords: ${h.keywords.slice(0, 5).join(", ")}`);
     meta.push(`Relevance: ${relevance} (${h.score.toFixed(1)})`);
@@ -456,32 +2505,197 @@ export function formatSearchResults(hits: SearchHit[], query: string): string {
   return lines.join("\n");
 }
 
+/**
+ * Formats the revision history of a record as markdown.
+ *
+ * @param r - The memory record
+ * @returns Markdown list of revisions, newest first
+ */
+export function formatHistory(r: MemoryRecord): string {
+  const revisions = listRevisions(r);
+  const current = revisions[revisions.length - 1].rev;
+  const lines: string[] = [];
+  lines.push(`## History: \`${r.id}\``);
+  lines.push(`${revisions.length} ${revisions.length === 1 ? "revision" : "revisions"}${r.deletedAt ? " (deleted)" : ""}\n`);
+  for (const v of revisions.slice().reverse()) {
+    const meta: string[] = [v.change];
+    if (v.fromRev !== undefined) meta.push(`from r${v.fromRev}`);
+    if (v.source) meta.push(`via ${v.source}`);
+    lines.push(`### r${v.rev}${v.rev === current ? " (current)" : ""} - ${v.at}`);
+    lines.push(`> ${v.text}`);
+    lines.push(`${v.tags.length ? `Tags: ${v.tags.join(", ")} | ` : ""}Change: ${meta.join(", ")}`);
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/** Short one-line preview of a memory's text */
+function preview(text: string, max = 80): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Formats a memory and its linked neighbours as markdown.
+ *
+ * @param records - Array of memory records
+ * @param r - The memory record at the centre
+ * @returns Markdown listing outgoing and incoming links
+ */
+export function formatGraph(records: MemoryRecord[], r: MemoryRecord): string {
+  const { outgoing, incoming } = neighbours(records, r);
+  const superseded = supersededMap(records);
+  const label = (x: MemoryRecord) => `${x.adr ? `${adrLabel(x.adr.number)}: ` : ""}${preview(x.adr ? x.adr.title : x.text)}`;
+  const lines: string[] = [];
+  lines.push(`## Links: \`${r.id}\``);
+  lines.push(`> ${label(r)}${r.deletedAt ? " (deleted)" : ""}${superseded.has(r.id) ? " (superseded)" : ""}\n`);
+
+  lines.push("### Outgoing");
+  if (outgoing.length === 0) lines.push("_None._");
+  for (const n of outgoing) {
+    const what = n.record ? `${label(n.record)}${n.record.deletedAt ? " (deleted)" : ""}` : "_(missing)_";
+    lines.push(`- ${n.type} → \`${n.id}\` ${what}`);
+  }
+
+  lines.push("");
+  lines.push("### Incoming");
+  if (incoming.length === 0) lines.push("_None._");
+  for (const n of incoming) lines.push(`- \`${n.id}\` ${n.type} this: ${label(n.record)}`);
+  return lines.join("\n");
+}
+
+/**
+ * Computes a word-level diff between two strings using LCS.
+ * Removed words are wrapped as [-word-], added words as {+word+}.
+ */
+function wordDiff(a: string, b: string): string {
+  const x = a.split(/\s+/).filter(Boolean);
+  const y = b.split(/\s+/).filter(Boolean);
+  const dp: number[][] = Array.from({ length: x.length + 1 }, () => new Array(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      dp[i][j] = x[i] === y[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) { out.push(x[i]); i++; j++; }
+    else if (i < x.length && (j >= y.length || dp[i + 1][j] >= dp[i][j + 1])) { out.push(`[-${x[i]}-]`); i++; }
+    else { out.push(`{+${y[j]}+}`); j++; }
+  }
+  return out.join(" ");
+}
+
+/**
+ * Diffs a past revision of a record against its current state.
+ *
+ * @param r - The memory record
+ * @param rev - The revision number to compare against the current state
+ * @returns Markdown with a word-level text diff and tag changes
+ * @throws Error if the revision does not exist
+ */
+export function diffRevision(r: MemoryRecord, rev: number): string {
+  const revisions = listRevisions(r);
+  const from = revisions.find((v) => v.rev === rev);
+  if (!from) throw new Error(`Revision ${rev} not found for ${r.id}`);
+  const to = revisions[revisions.length - 1];
+
+  const lines: string[] = [];
+  lines.push(`## Diff: \`${r.id}\` r${from.rev} → r${to.rev} (current)\n`);
+  if (from.text === to.text) lines.push("Text: _unchanged_");
+  else lines.push(`Text: ${wordDiff(from.text, to.text)}`);
+
+  const added = to.tags.filter((t) => !from.tags.includes(t));
+  const removed = from.tags.filter((t) => !to.tags.includes(t));
+  if (added.length === 0 && removed.length === 0) lines.push("Tags: _unchanged_");
+  else lines.push(`Tags: ${[...removed.map((t) => `[-${t}-]`), ...added.map((t) => `{+${t}+}`)].join(" ")}`);
+
+  return lines.join("\n");
+}
+
+/** Section headings used when compressed context is grouped by kind */
+const KIND_HEADINGS: Record<MemoryKind, string> = {
+  decision: "Decisions",
+  convention: "Conventions",
+  preference: "Preferences",
+  todo: "Open todos",
+  episode: "Episodes",
+};
+
+/**
+ * Renders one memory as a compressed-context bullet, shaped by its kind.
+ * The id is followed by the source layer when several layers are active.
+ * ADRs become a bullet with nested context/decision/consequences items.
+ */
+function formatContextLine(h: SearchHit): string {
+  const ref = h.layer ? `${h.id}, ${h.layer}` : h.id;
+  const tagStr = h.tags.length ? ` [${h.tags.join(", ")}]` : "";
+  if (h.adr) {
+    const out = [
+      `- (${ref})${tagStr} **${adrLabel(h.adr.number)}: ${h.adr.title}** (${h.adr.status})`,
+      `  - Context: ${h.adr.context}`,
+      `  - Decision: ${h.adr.decision}`
+    ];
+    if (h.adr.consequences) out.push(`  - Consequences: ${h.adr.consequences}`);
+    return out.join("\n");
+  }
+  if (h.kind === "todo") return `- [ ] (${ref})${tagStr} ${h.text}`;
+  if (h.kind === "episode") return `- (${ref}) ${h.createdAt.slice(0, 10)}${tagStr} ${h.text}`;
+  return `- (${ref})${tagStr} ${h.text}`;
+}
+
 /**
  * Compresses relevant memories into a budget-constrained markdown block.
  * Uses deterministic truncation (no LLM) - includes memories until budget exhausted.
+ * Typed memories are grouped under a heading per kind (decisions first);
+ * untyped ones follow under "Relevant memory". Rank order is kept within a group.
+ * Superseded and expired memories are left out. Pinned memories come first under "Pinned"
+ * whether or not they match the query, and count against the budget.
+ * Likely contradictions among the included memories are listed next, under
+ * "Possible conflicts".
  *
  * @param opts.records - Array of memory records
  * @param opts.query - Search query to find relevant memories
  * @param opts.budget - Maximum characters for output (min 200)
  * @param opts.limit - Maximum memories to consider (default 25)
+ * @param opts.ranker - Ranking algorithm used to pick memories (default "legacy")
+ * @param opts.syntax - Parse the query syntax (default true); false for free-form task text
  * @returns CompressResult with markdown and metadata
  */
-export function compressDeterministic(opts: { records: MemoryRecord[]; query: string; budget: number; limit?: number }): CompressResult {
+export function compressDeterministic(opts: { records: MemoryRecord[]; query: string; budget: number; limit?: number; ranker?: Ranker; syntax?: boolean }): CompressResult {
   const budget = Math.max(200, opts.budget);
   const limit = Math.max(1, opts.limit ?? 25);
-  const hits = search(opts.records, opts.query, limit);
+  const pinned = pinnedMemories(opts.records).map((r) => toHit(r, 0));
+  const hits = search(opts.records, opts.query, limit, { ranker: opts.ranker, superseded: "exclude", syntax: opts.syntax })
+    .filter((h) => !h.pinned);
 
   const lines: string[] = [];
   lines.push("# Copilot Context (auto)");
   lines.push("");
-  lines.push("## Relevant memory");
-  for (const h of hits) {
-    const tagStr = h.tags.length ? ` [${h.tags.join(", ")}]` : "";
-    lines.push(`- (${h.id})${tagStr} ${h.text}`);
+  const section = (heading: string, group: SearchHit[]) => {
+    if (lines[lines.length - 1] !== "") lines.push("");
+    lines.push(`## ${heading}`);
+    for (const h of group) lines.push(formatContextLine(h));
+  };
+  if (pinned.length > 0) section("Pinned", pinned);
+  const includedIds = new Set([...pinned, ...hits].map((h) => h.id));
+  const conflicts = detectConflicts(opts.records.filter((r) => includedIds.has(r.id)));
+  if (conflicts.length > 0) {
+    if (lines[lines.length - 1] !== "") lines.push("");
+    lines.push("## ⚠️ Possible conflicts");
+    for (const c of conflicts) lines.push(`- (${c.a.id}) vs newer (${c.b.id}): ${c.reason}`);
+  }
+  for (const kind of MEMORY_KINDS) {
+    const group = hits.filter((h) => h.kind === kind);
+    if (group.length > 0) section(KIND_HEADINGS[kind], group);
   }
+  const untyped = hits.filter((h) => !h.kind);
+  if (untyped.length > 0 || hits.length === 0) section("Relevant memory", untyped);
 
+  const included = [...pinned, ...hits];
   const md = lines.join("\n") + "\n";
-  if (md.length <= budget) return { markdown: md, included: hits, budget, used: md.length };
+  if (md.length <= budget) return { markdown: md, included, budget, used: md.length };
 
   const out: string[] = [];
   let size = 0;
@@ -490,6 +2704,8 @@ export function compressDeterministic(opts: { records: MemoryRecord[]; query: st
     out.push(line);
     size += line.length + 1;
   }
+  // Don't end on a heading whose memories were cut
+  while (out.length > 0 && (out[out.length - 1] === "" || out[out.length - 1].startsWith("## "))) out.pop();
   const md2 = out.join("\n") + "\n";
-  return { markdown: md2, included: hits, budget, used: md2.length };
+  return { markdown: md2, included, budget, used: md2.length };
 }
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Persistent inverted index for memory search.
+ *
+ * Maps each word token of a memory's (lowercased) text to the records
+ * containing it, with term frequencies, so whole-token rankers (BM25, hybrid)
+ * look a query word up directly. It also records each record's length in
+ * word tokens for length normalization, and a hashed n-gram vector per
+ * record (see vectors.ts) for cosine similarity.
+ *
+ * The legacy ranker counts substring hits ("postgres" inside "postgresql").
+ * For a query token made of letters and digits those hits lie inside single
+ * word tokens, so they are counted by scanning the vocabulary: linear in the
+ * number of distinct words, not in the size of the store. Tokens containing
+ * other characters ("node.js") can span word boundaries and are counted in
+ * the record texts instead (see substringHits).
+ *
+ * For JSON stores the index lives next to the memory file (e.g.
+ * `.copilot-memory.index.json`) and is tagged with the size and mtime of the
+ * store file it was built from. A missing or stale index is rebuilt
+ * automatically. SQLite stores keep each record's entry (see indexEntry) in
+ * the database instead.
+ *
+ * @module searchIndex
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { MemoryRecord } from "./memoryStore.js";
+import { embed, type SparseVector } from "./vectors.js";
+
+/** Bump when the on-disk index layout changes */
+const INDEX_VERSION = 4;
+
+/**
+ * Identifies the exact store file contents an index was built from.
+ */
+export type StoreSignature = {
+  size: number;
+  mtimeMs: number;
+};
+
+/**
+ * Inverted index over active (non-deleted) memory records.
+ */
+export type SearchIndex = {
+  version: number;
+  /** Signature of the store file this index matches, null if never persisted */
+  store: StoreSignature | null;
+  /** word token -> { recordId: term frequency } */
+  terms: Record<string, Record<string, number>>;
+  /** recordId -> distinct word tokens indexed for it (used for removal) */
+  docs: Record<string, string[]>;
+  /** recordId -> number of word tokens in its text */
+  lengths: Record<string, number>;
+  /** recordId -> hashed n-gram vector of its text and tags */
+  vectors: Record<string, SparseVector>;
+};
+
+/**
+ * Splits text into lowercase word tokens (runs of letters and digits).
+ * Used for whole-token matching, so "test" never matches inside "latest".
+ *
+ * @param text - Text to split
+ * @returns Array of word tokens in order
+ */
+export function wordTokens(text: string): string[] {
+  return (text || "").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** Counts non-overlapping occurrences of needle in haystack */
+export function countOccurrences(haystack: string, needle: string): number {
+  let n = 0;
+  let i = haystack.indexOf(needle);
+  while (i >= 0) {
+    n += 1;
+    i = haystack.indexOf(needle, i + needle.length);
+  }
+  return n;
+}
+
+/** Resolves the index file path adjacent to the memory file (`x.json` → `x.index.json`, `x.db` → `x.db.index.json`) */
+export function resolveIndexPath(memoryPath: string): string {
+  const ext = path.extname(memoryPath);
+  const base = ext.toLowerCase() === ".json" ? path.basename(memoryPath, ext) : path.basename(memoryPath);
+  return path.join(path.dirname(memoryPath), `${base}.index.json`);
+}
+
+/**
+ * Reads the store file's signature, or null if it does not exist.
+ *
+ * @param memoryPath - Path to the memory file
+ */
+export function statStore(memoryPath: string): StoreSignature | null {
+  try {
+    const st = fs.statSync(memoryPath);
+    return { size: st.size, mtimeMs: st.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+/** Returns true if the index was built from the store file with this signature */
+export function isFresh(index: SearchIndex, sig: StoreSignature | null): boolean {
+  if (!index.store || !sig) return false;
+  return index.store.size === sig.size && index.store.mtimeMs === sig.mtimeMs;
+}
+
+/** Creates an empty index */
+export function emptyIndex(): SearchIndex {
+  return { version: INDEX_VERSION, store: null, terms: {}, docs: {}, lengths: {}, vectors: {} };
+}
+
+/**
+ * What the index holds for one record: its word token frequencies, length
+ * and vector. Backends that keep the index with the records (sqlite) store
+ * these per row.
+ */
+export type IndexEntry = {
+  /** word token -> term frequency */
+  tf: Record<string, number>;
+  length: number;
+  vector: SparseVector;
+};
+
+/**
+ * Computes a record's index entry.
+ *
+ * @param r - The record to index
+ * @returns The entry, or null for a deleted record (tombstones are not indexed)
+ */
+export function indexEntry(r: MemoryRecord): IndexEntry | null {
+  if (r.deletedAt) return null;
+  const words = wordTokens(r.text);
+  const tf: Record<string, number> = {};
+  for (const w of words) tf[w] = (Object.hasOwn(tf, w) ? tf[w] : 0) + 1;
+  return { tf, length: words.length, vector: embed(words.concat(wordTokens(r.tags.join(" ")))) };
+}
+
+/**
+ * Adds a record's entry to the index. Any previous entry for the same id
+ * is replaced.
+ *
+ * @param index - The index to mutate
+ * @param id - The record id
+ * @param entry - The record's entry (see indexEntry)
+ */
+export function addEntry(index: SearchIndex, id: string, entry: IndexEntry): void {
+  unindexRecord(index, id);
+  for (const [w, n] of Object.entries(entry.tf)) {
+    // Own properties only: words like "constructor" must not hit Object.prototype
+    const postings = Object.hasOwn(index.terms, w) ? index.terms[w] : (index.terms[w] = {});
+    postings[id] = n;
+  }
+  index.docs[id] = Object.keys(entry.tf);
+  index.lengths[id] = entry.length;
+  index.vectors[id] = entry.vector;
+}
+
+/**
+ * Adds a record to the index. Deleted records are skipped.
+ * Any previous entry for the same id is replaced.
+ *
+ * @param index - The index to mutate
+ * @param r - The record to index
+ */
+export function indexRecord(index: SearchIndex, r: MemoryRecord): void {
+  const entry = indexEntry(r);
+  if (entry) addEntry(index, r.id, entry);
+  else unindexRecord(index, r.id);
+}
+
+/**
+ * Removes a record from the index. No-op if it is not indexed.
+ *
+ * @param index - The index to mutate
+ * @param id - The record id to remove
+ */
+export function unindexRecord(index: SearchIndex, id: string): void {
+  if (!Object.hasOwn(index.docs, id)) return;
+  for (const tok of index.docs[id]) {
+    if (!Object.hasOwn(index.terms, tok)) continue;
+    const postings = index.terms[tok];
+    delete postings[id];
+    if (Object.keys(postings).length === 0) delete index.terms[tok];
+  }
+  delete index.docs[id];
+  delete index.lengths[id];
+  delete index.vectors[id];
+}
+
+/**
+ * Builds a fresh index from all records.
+ *
+ * @param records - Memory records (deleted ones are skipped)
+ * @returns A new, unpersisted index
+ */
+export function buildIndex(records: MemoryRecord[]): SearchIndex {
+  const index = emptyIndex();
+  for (const r of records) indexRecord(index, r);
+  return index;
+}
+
+/**
+ * Reads an index file, returning null if it is missing, unreadable, or
+ * from an incompatible version.
+ *
+ * @param indexPath - Path to the index file
+ */
+export function readIndex(indexPath: string): SearchIndex | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    if (data?.version !== INDEX_VERSION || typeof data.terms !== "object" || typeof data.docs !== "object" || typeof data.lengths !== "object" || typeof data.vectors !== "object") return null;
+    return data as SearchIndex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes the index atomically (tmp file + rename), tagged with the store signature.
+ *
+ * @param indexPath - Path to the index file
+ * @param index - The index to persist
+ * @param sig - Signature of the store file the index matches
+ */
+export function writeIndex(indexPath: string, index: SearchIndex, sig: StoreSignature | null): void {
+  index.store = sig;
+  const tmp = `${indexPath}.tmp.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
+  fs.writeFileSync(tmp, JSON.stringify(index) + "\n", { encoding: "utf-8" });
+  fs.renameSync(tmp, indexPath);
+}
+
+/** Matches tokens made only of letters and digits, whose substring hits never cross a word boundary */
+const WORD_ONLY = /^[\p{L}\p{N}]+$/u;
+
+/**
+ * Counts occurrences of a query token in each indexed record's text by
+ * scanning the vocabulary (one pass over the distinct word tokens).
+ *
+ * Only tokens made of letters and digits can be answered this way: every
+ * occurrence then lies inside a single word token, so summing per-term
+ * counts weighted by term frequency gives the same result as scanning the
+ * full text. For any other token the caller must count in the texts.
+ *
+ * @param index - The index to query
+ * @param tok - A lowercase, whitespace-free query token
+ * @returns Map of record id to occurrence count (records with 0 are omitted), or null if the token has other characters
+ */
+export function substringHits(index: SearchIndex, tok: string): Map<string, number> | null {
+  const out = new Map<string, number>();
+  if (!tok) return out;
+  if (!WORD_ONLY.test(tok)) return null;
+  for (const term of Object.keys(index.terms)) {
+    if (term.length < tok.length) continue;
+    const occ = countOccurrences(term, tok);
+    if (occ === 0) continue;
+    for (const [id, tf] of Object.entries(index.terms[term])) {
+      out.set(id, (out.get(id) || 0) + occ * tf);
+    }
+  }
+  return out;
+}
+
+/**
+ * Looks up the whole-token occurrences of a word token in each indexed record's text.
+ *
+ * @param index - The index to query
+ * @param word - A lowercase word token (see wordTokens)
+ * @returns Map of record id to term frequency (records with 0 are omitted)
+ */
+export function wordHits(index: SearchIndex, word: string): Map<string, number> {
+  return new Map(Object.hasOwn(index.terms, word) ? Object.entries(index.terms[word]) : []);
+}
+
+/**
+ * Returns the average text length (in word tokens) across indexed records.
+ *
+ * @param index - The index to inspect
+ */
+export function averageLength(index: SearchIndex): number {
+  const lens = Object.values(index.lengths);
+  if (lens.length === 0) return 0;
+  return lens.reduce((a, b) => a + b, 0) / lens.length;
+}
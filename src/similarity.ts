@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Near-duplicate detection for memory texts.
+ *
+ * Texts are compared by the Jaccard similarity of their character trigrams
+ * after normalization (lowercased, punctuation dropped, whitespace
+ * collapsed). Trigrams tolerate reordered words, typos and small rewordings,
+ * so "Always use TypeScript strict mode" and "Use TypeScript strict mode,
+ * always." score as near-duplicates while unrelated notes that share a
+ * keyword or two do not.
+ *
+ * @module similarity
+ */
+
+/**
+ * Normalizes text for comparison.
+ *
+ * @param text - Memory text
+ * @returns Lowercased text with only letters, digits and single spaces
+ */
+function normalize(text: string): string {
+  return text.normalize("NFC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Splits text into its set of character trigrams.
+ *
+ * @param text - Memory text
+ * @returns Set of trigrams (the whole text if it is shorter than three characters)
+ */
+export function shingles(text: string): Set<string> {
+  const chars = Array.from(normalize(text));
+  const out = new Set<string>();
+  if (chars.length === 0) return out;
+  if (chars.length < 3) { out.add(chars.join("")); return out; }
+  for (let i = 0; i + 3 <= chars.length; i++) out.add(chars.slice(i, i + 3).join(""));
+  return out;
+}
+
+/**
+ * Jaccard similarity of two sets: |A ∩ B| / |A ∪ B|.
+ *
+ * @returns Similarity in [0, 1] (0 if both sets are empty)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const s of small) if (large.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
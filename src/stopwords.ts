@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Stop-word lists for keyword extraction.
+ *
+ * Ships lists for English, German, Spanish, Portuguese, French, Japanese
+ * and Chinese. Which lists apply is chosen per store with the
+ * `MEMORY_STOP_WORDS` environment variable:
+ *
+ * - `auto` (default): detect the language of each memory and use its list,
+ *   plus English, since notes about code mix in English terms
+ * - `en,de,...`: always use the union of these lists
+ * - `none`: keep every word
+ *
+ * Additional lists can be added at runtime with `registerStopWords()`.
+ *
+ * @module stopwords
+ */
+
+/**
+ * Stop-word lists by language code. The English list also drops a few
+ * words that are too common in coding notes to help search ("use", "prefer").
+ */
+const STOP_WORD_LISTS: Record<string, Set<string>> = {
+  en: new Set([
+    "i", "me", "my", "we", "our", "you", "your", "he", "she", "it", "they", "them",
+    "a", "an", "the", "this", "that", "these", "those",
+    "is", "am", "are", "was", "were", "be", "been", "being",
+    "have", "has", "had", "do", "does", "did", "will", "would", "could", "should",
+    "can", "may", "might", "must", "shall",
+    "and", "or", "but", "if", "then", "else", "when", "where", "why", "how",
+    "all", "each", "every", "both", "few", "more", "most", "some", "any", "no",
+    "not", "only", "own", "same", "so", "than", "too", "very",
+    "just", "also", "now", "here", "there", "about", "after", "before",
+    "to", "from", "up", "down", "in", "out", "on", "off", "over", "under",
+    "with", "without", "for", "of", "at", "by", "as", "into", "through",
+    "like", "want", "use", "using", "used", "prefer", "always", "never",
+  ]),
+  de: new Set([
+    "ich", "du", "er", "sie", "es", "wir", "ihr", "mich", "mir", "uns", "euch",
+    "der", "die", "das", "den", "dem", "des", "ein", "eine", "einen", "einem", "einer", "eines",
+    "und", "oder", "aber", "wenn", "dass", "weil", "als", "wie", "auch", "noch", "nur", "schon",
+    "ist", "sind", "war", "waren", "sein", "hat", "haben", "hatte", "wird", "werden", "wurde",
+    "kann", "können", "muss", "müssen", "soll", "sollen", "nicht", "kein", "keine",
+    "mit", "von", "zu", "zum", "zur", "für", "auf", "aus", "bei", "nach", "über", "unter", "vor", "durch", "ohne",
+    "im", "in", "am", "an", "immer", "nie", "sehr", "hier", "dort", "jetzt", "dann", "diese", "dieser", "dieses",
+    "verwenden", "nutzen", "benutzen",
+  ]),
+  es: new Set([
+    "yo", "tú", "él", "ella", "nosotros", "ellos", "ellas", "me", "te", "se", "nos", "le", "les",
+    "el", "la", "los", "las", "un", "una", "unos", "unas", "lo",
+    "y", "o", "pero", "si", "que", "porque", "como", "cuando", "donde", "también", "muy", "más", "ya",
+    "es", "son", "era", "ser", "está", "están", "estar", "ha", "han", "hay", "fue",
+    "no", "ni", "sin", "con", "de", "del", "al", "a", "en", "por", "para", "sobre", "entre", "desde", "hasta",
+    "este", "esta", "estos", "estas", "ese", "esa", "su", "sus", "nuestro", "nuestra",
+    "siempre", "nunca", "usar", "usamos", "preferimos",
+  ]),
+  pt: new Set([
+    "eu", "tu", "ele", "ela", "nós", "eles", "elas", "me", "te", "se", "nos", "lhe",
+    "o", "a", "os", "as", "um", "uma", "uns", "umas",
+    "e", "ou", "mas", "se", "que", "porque", "como", "quando", "onde", "também", "muito", "mais", "já",
+    "é", "são", "era", "ser", "está", "estão", "estar", "tem", "têm", "ter", "foi", "há",
+    "não", "sem", "com", "de", "do", "da", "dos", "das", "em", "no", "na", "nos", "nas",
+    "por", "para", "pelo", "pela", "sobre", "entre", "até", "ao", "à",
+    "este", "esta", "isso", "isto", "esse", "essa", "seu", "sua", "nosso", "nossa",
+    "sempre", "nunca", "usar", "usamos", "preferimos",
+  ]),
+  fr: new Set([
+    "je", "tu", "il", "elle", "nous", "vous", "ils", "elles", "me", "te", "se", "on",
+    "le", "la", "les", "un", "une", "des", "du", "de", "au", "aux",
+    "et", "ou", "mais", "si", "que", "qui", "quand", "comme", "où", "aussi", "très", "plus", "déjà",
+    "est", "sont", "était", "être", "a", "ont", "avoir", "été", "fait",
+    "ne", "pas", "sans", "avec", "en", "dans", "par", "pour", "sur", "sous", "entre", "vers", "chez",
+    "ce", "cet", "cette", "ces", "son", "sa", "ses", "notre", "nos",
+    "toujours", "jamais", "utiliser", "utilisons", "préférons",
+  ]),
+  ja: new Set([
+    "は", "が", "を", "に", "で", "と", "の", "へ", "も", "や", "から", "まで", "より",
+    "です", "ます", "でした", "ました", "ません", "する", "します", "した", "して", "いる", "います",
+    "ある", "あります", "なる", "なります", "こと", "もの", "ため", "これ", "それ", "あれ", "この", "その",
+    "私", "私たち", "たち", "我々", "また", "そして", "しかし", "など", "ない", "よう",
+  ]),
+  zh: new Set([
+    "的", "了", "和", "是", "在", "我", "我们", "你", "你们", "他", "她", "它", "他们",
+    "这", "那", "这个", "那个", "一个", "有", "没有", "不", "也", "都", "就", "还", "而",
+    "与", "或", "但", "但是", "因为", "所以", "如果", "对", "把", "被", "从", "到", "给",
+    "使用", "用", "总是", "从不",
+  ]),
+};
+
+/** Matches kana, which only appears in Japanese */
+const KANA_RE = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/** Matches Han ideographs (Chinese, or Japanese kanji) */
+const HAN_RE = /\p{Script=Han}/u;
+
+/**
+ * Adds or replaces a stop-word list.
+ *
+ * @param lang - Language code (e.g. "it")
+ * @param words - Lowercase words to drop
+ */
+export function registerStopWords(lang: string, words: Iterable<string>): void {
+  STOP_WORD_LISTS[lang.toLowerCase()] = new Set(Array.from(words, (w) => w.toLowerCase()));
+}
+
+/**
+ * Returns the registered language codes.
+ */
+export function stopWordLanguages(): string[] {
+  return Object.keys(STOP_WORD_LISTS);
+}
+
+/**
+ * Guesses the language of tokenized text.
+ *
+ * Kana means Japanese and Han without kana means Chinese. Otherwise the list
+ * with the most stop-word hits wins, falling back to English.
+ *
+ * @param text - The original text (for script detection)
+ * @param tokens - Lowercase tokens of the text
+ * @returns A registered language code
+ */
+export function detectLanguage(text: string, tokens: string[]): string {
+  if (KANA_RE.test(text) && STOP_WORD_LISTS.ja) return "ja";
+  if (HAN_RE.test(text) && STOP_WORD_LISTS.zh) return "zh";
+  let best = "en";
+  let bestHits = 0;
+  for (const [lang, list] of Object.entries(STOP_WORD_LISTS)) {
+    const hits = tokens.filter((t) => list.has(t)).length;
+    if (hits > bestHits) { best = lang; bestHits = hits; }
+  }
+  return best;
+}
+
+/**
+ * Resolves the stop words to apply to one memory, following `MEMORY_STOP_WORDS`.
+ *
+ * @param text - The memory text
+ * @param tokens - Lowercase tokens of the text
+ * @returns Set of words to drop
+ * @throws Error if the setting names an unknown list
+ */
+export function stopWordsFor(text: string, tokens: string[]): Set<string> {
+  const setting = (process.env.MEMORY_STOP_WORDS || "auto").trim().toLowerCase();
+  if (setting === "none") return new Set();
+  if (setting === "auto") {
+    const lang = detectLanguage(text, tokens);
+    if (lang === "en" || !STOP_WORD_LISTS.en) return STOP_WORD_LISTS[lang];
+    return new Set([...STOP_WORD_LISTS[lang], ...STOP_WORD_LISTS.en]);
+  }
+  const out = new Set<string>();
+  for (const lang of setting.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const list = STOP_WORD_LISTS[lang];
+    if (!list) throw new Error(`Unknown stop-word list in MEMORY_STOP_WORDS: ${lang} (available: ${stopWordLanguages().join(", ")})`);
+    for (const w of list) out.add(w);
+  }
+  return out;
+}
@@ -0,0 +1,444 @@
+/**
+ * @fileoverview Storage backends for memory store files.
+ *
+ * The store logic in memoryStore.ts reads and writes records through a
+ * MemoryStorage, so the file format is swappable:
+ *
+ * - json: the whole store as one JSON document, `{ "version": 2, "records": [...] }`.
+ *   Every write rewrites the file atomically, so it costs O(n). Older
+ *   files (a bare array of records, or the `{ description, usage, records }`
+ *   scenario files) are read as schema version 1.
+ * - sqlite: one row per record in a SQLite database via the built-in
+ *   `node:sqlite` module (Node.js 22.13+). Each row's search index entry
+ *   (see searchIndex.ts) is kept in the same database and written in the
+ *   same transaction, and single records can be read by id or ADR number
+ *   (see DirectAccess), so adding or editing a memory reads and writes only
+ *   its own rows. An FTS5 table with the trigram tokenizer (`memories_text`),
+ *   kept in sync by triggers, indexes the text of active records; search
+ *   uses it to find the records containing a query token instead of
+ *   scanning the vocabulary. The schema version is kept in
+ *   `PRAGMA user_version`.
+ *
+ * A storage hands records back as they are stored, along with the schema
+ * version they were written at; memoryStore.ts migrates them on read and
+ * calls `upgrade()` to rewrite an outdated store on its next write.
+ *
+ * The backend follows the file extension (`.db`, `.sqlite`, `.sqlite3` are
+ * SQLite), so every store path is self-describing. Callers are expected to
+ * hold the store's lock around writes.
+ *
+ * @module storage
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { createRequire } from "node:module";
+import type { DatabaseSync } from "node:sqlite";
+import type { MemoryRecord } from "./memoryStore.js";
+import { addEntry, emptyIndex, indexEntry, type IndexEntry, type SearchIndex } from "./searchIndex.js";
+
+/** Available storage backends */
+export type BackendName = "json" | "sqlite";
+
+/** All backends */
+export const BACKENDS: readonly BackendName[] = ["json", "sqlite"];
+
+/** Schema version of the records this code writes (1: bare JSON arrays, before versioning) */
+export const SCHEMA_VERSION = 2;
+
+/** File extensions stored with the sqlite backend */
+const SQLITE_EXTENSIONS = new Set([".db", ".sqlite", ".sqlite3"]);
+
+/**
+ * Reads and writes the records of one store file.
+ */
+export type MemoryStorage = {
+  backend: BackendName;
+  /** Resolved path of the store file */
+  path: string;
+  /** Reads every record (including tombstones) in insertion order; empty if the file does not exist */
+  load(): MemoryRecord[];
+  /** Schema version of the stored records (SCHEMA_VERSION if the file does not exist) */
+  version(): number;
+  /** Replaces every record with the given (migrated) ones and stamps the current schema version */
+  upgrade(records: MemoryRecord[]): void;
+  /** Adds new records after the existing ones */
+  append(records: MemoryRecord[]): void;
+  /** Replaces existing records with the same ids */
+  update(records: MemoryRecord[]): void;
+  /** Permanently removes records by id */
+  delete(ids: string[]): void;
+  /**
+   * Looks up the ids of active records whose text contains a lowercase
+   * substring, using the backend's own full-text index. Returns null when
+   * the backend cannot answer for this substring; callers then count hits
+   * themselves.
+   */
+  containing(needle: string): string[] | null;
+  /** Single-record reads and the backend's own search index, or null if the backend only reads whole stores (json) */
+  direct: DirectAccess | null;
+};
+
+/**
+ * Reads that do not load the whole store, for backends that keep one row
+ * per record. Records come back as stored, before read-time migrations.
+ */
+export type DirectAccess = {
+  /** Reads a record by id */
+  byId(id: string): MemoryRecord | undefined;
+  /** Reads a record by ADR number */
+  byAdr(n: number): MemoryRecord | undefined;
+  /** Highest ADR number in the store, deleted ADRs included (0 if none) */
+  maxAdr(): number;
+  /** Ids and texts of active records, in insertion order */
+  texts(): Array<Pick<MemoryRecord, "id" | "text" | "deletedAt">>;
+  /** Reads the search index kept alongside the records */
+  index(): SearchIndex;
+};
+
+/**
+ * Validates a backend name.
+ *
+ * @param value - Backend name (case-insensitive)
+ * @returns The backend
+ * @throws Error if it is not one of BACKENDS
+ */
+export function parseBackend(value: string): BackendName {
+  const b = value.trim().toLowerCase() as BackendName;
+  if (!BACKENDS.includes(b)) throw new Error(`Unknown backend: ${value} (expected one of: ${BACKENDS.join(", ")})`);
+  return b;
+}
+
+/** Returns the backend a store file uses, judged by its extension */
+export function backendFor(memoryPath: string): BackendName {
+  return SQLITE_EXTENSIONS.has(path.extname(memoryPath).toLowerCase()) ? "sqlite" : "json";
+}
+
+/** Default file extension for a backend */
+export function backendExtension(backend: BackendName): string {
+  return backend === "sqlite" ? ".db" : ".json";
+}
+
+/** Open storages by path, so SQLite connections are reused */
+const storages = new Map<string, MemoryStorage>();
+
+/**
+ * Returns the storage for a store file, choosing the backend by extension.
+ *
+ * @param memoryPath - Resolved path of the store file
+ */
+export function storageFor(memoryPath: string): MemoryStorage {
+  let s = storages.get(memoryPath);
+  if (!s) {
+    s = backendFor(memoryPath) === "sqlite" ? sqliteStorage(memoryPath) : jsonStorage(memoryPath);
+    storages.set(memoryPath, s);
+  }
+  return s;
+}
+
+// ─────────────────────────────────────────────────────────────
+// JSON
+// ─────────────────────────────────────────────────────────────
+
+/** Writes data atomically using tmp file + rename pattern */
+function atomicWrite(filePath: string, data: any): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp.${process.pid}.${crypto.randomBytes(3).toString("hex")}`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2) + "\n", { encoding: "utf-8" });
+  fs.renameSync(tmp, filePath);
+}
+
+/** Contents of a JSON store file */
+type StoreFile = {
+  version: number;
+  records: MemoryRecord[];
+  /** Other top-level fields (e.g. a scenario's description), kept on rewrite */
+  meta: Record<string, unknown>;
+};
+
+/**
+ * Reads the schema version and records out of a parsed JSON store file.
+ *
+ * @param data - Parsed file contents
+ * @param filePath - Path of the file, for error messages
+ * @throws Error if the file has no records array or a version newer than SCHEMA_VERSION
+ */
+function parseStoreFile(data: unknown, filePath: string): StoreFile {
+  if (Array.isArray(data)) return { version: 1, records: data as MemoryRecord[], meta: {} };
+  if (!data || typeof data !== "object" || !Array.isArray((data as { records?: unknown }).records)) {
+    throw new Error(`Memory file must be a JSON array or an object with a "records" array: ${filePath}`);
+  }
+  const { version, records, ...meta } = data as { version?: unknown; records: MemoryRecord[] };
+  const v = version === undefined ? 1 : Number(version);
+  if (!Number.isInteger(v) || v < 1) throw new Error(`Invalid schema version ${JSON.stringify(version)} in ${filePath}`);
+  if (v > SCHEMA_VERSION) throw new Error(`${filePath} uses schema version ${v}; this version of copilot-memory-store reads up to ${SCHEMA_VERSION}. Upgrade to open it.`);
+  return { version: v, records, meta };
+}
+
+/**
+ * Creates a storage for a JSON store file. Every write reads the file,
+ * applies the change, and rewrites it atomically. Partial writes keep the
+ * file's schema version; only `upgrade()` raises it.
+ *
+ * @param filePath - Resolved path of the JSON file
+ */
+export function jsonStorage(filePath: string): MemoryStorage {
+  // Version seen by the last read, so version() after load() does not parse the file again
+  let seen: { mtimeMs: number; size: number; version: number } | null = null;
+  const read = (): StoreFile => {
+    if (!fs.existsSync(filePath)) return { version: SCHEMA_VERSION, records: [], meta: {} };
+    const raw = fs.readFileSync(filePath, "utf-8").trim();
+    const file = raw ? parseStoreFile(JSON.parse(raw), filePath) : { version: SCHEMA_VERSION, records: [], meta: {} };
+    const st = fs.statSync(filePath);
+    seen = { mtimeMs: st.mtimeMs, size: st.size, version: file.version };
+    return file;
+  };
+  const rewrite = (file: StoreFile, records: MemoryRecord[]) => atomicWrite(filePath, { ...file.meta, version: file.version, records });
+  return {
+    backend: "json",
+    path: filePath,
+    load: () => read().records,
+    version() {
+      const st = fs.statSync(filePath, { throwIfNoEntry: false });
+      if (st && seen && st.mtimeMs === seen.mtimeMs && st.size === seen.size) return seen.version;
+      return read().version;
+    },
+    upgrade(records) {
+      rewrite({ ...read(), version: SCHEMA_VERSION }, records);
+    },
+    append(records) {
+      const file = read();
+      rewrite(file, [...file.records, ...records]);
+    },
+    update(records) {
+      const byId = new Map(records.map((r) => [r.id, r]));
+      const file = read();
+      rewrite(file, file.records.map((r) => byId.get(r.id) ?? r));
+    },
+    delete(ids) {
+      const gone = new Set(ids);
+      const file = read();
+      rewrite(file, file.records.filter((r) => !gone.has(r.id)));
+    },
+    // No text index of its own; search uses the JSON side index
+    containing: () => null,
+    direct: null,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// SQLite
+// ─────────────────────────────────────────────────────────────
+
+/** Indexes a row's text for substring search, keyed by its seq (tombstones are skipped) */
+const TEXT_INSERT = `
+  INSERT INTO memories_text (rowid, text)
+  SELECT new.seq, json_extract(new.data, '$.text')
+  WHERE json_extract(new.data, '$.deletedAt') IS NULL;`;
+
+/** ADR number of a stored record, for the expression index and lookups */
+const ADR_NUMBER = "json_extract(data, '$.adr.number')";
+
+/**
+ * Schema: records as JSON documents keyed by id, in insertion order, a
+ * trigram index of their text, and each active record's search index entry
+ * (word token frequencies in `memories_terms`, length and vector in
+ * `memories_docs`).
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memories (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT NOT NULL UNIQUE,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS memories_adr ON memories (${ADR_NUMBER});
+CREATE VIRTUAL TABLE IF NOT EXISTS memories_text USING fts5(text, tokenize = 'trigram');
+CREATE TRIGGER IF NOT EXISTS memories_text_ai AFTER INSERT ON memories BEGIN ${TEXT_INSERT} END;
+CREATE TRIGGER IF NOT EXISTS memories_text_ad AFTER DELETE ON memories BEGIN
+  DELETE FROM memories_text WHERE rowid = old.seq;
+END;
+CREATE TRIGGER IF NOT EXISTS memories_text_au AFTER UPDATE ON memories BEGIN
+  DELETE FROM memories_text WHERE rowid = old.seq; ${TEXT_INSERT}
+END;
+CREATE TABLE IF NOT EXISTS memories_terms (
+  term TEXT NOT NULL,
+  id TEXT NOT NULL,
+  tf INTEGER NOT NULL,
+  PRIMARY KEY (term, id)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS memories_terms_id ON memories_terms (id);
+CREATE TABLE IF NOT EXISTS memories_docs (
+  id TEXT PRIMARY KEY,
+  length INTEGER NOT NULL,
+  vector TEXT NOT NULL
+);
+`;
+
+/** Fills the text index for a database created before it existed */
+const TEXT_BACKFILL = `
+INSERT INTO memories_text (rowid, text)
+SELECT seq, json_extract(data, '$.text') FROM memories
+WHERE json_extract(data, '$.deletedAt') IS NULL;`;
+
+/** Substrings the trigram index answers exactly: three or more printable ASCII characters, where SQLite's case folding matches toLowerCase */
+const TRIGRAM_NEEDLE = /^[\x20-\x7e]{3,}$/;
+
+/** Replaces the search index entries of records (removing those of tombstones) */
+function writeEntries(db: DatabaseSync, records: MemoryRecord[]): void {
+  const insertTerm = db.prepare("INSERT INTO memories_terms (term, id, tf) VALUES (?, ?, ?)");
+  const insertDoc = db.prepare("INSERT INTO memories_docs (id, length, vector) VALUES (?, ?, ?)");
+  removeEntries(db, records.map((r) => r.id));
+  for (const r of records) {
+    const entry = indexEntry(r);
+    if (!entry) continue;
+    for (const [term, tf] of Object.entries(entry.tf)) insertTerm.run(term, r.id, tf);
+    insertDoc.run(r.id, entry.length, JSON.stringify(entry.vector));
+  }
+}
+
+/** Removes the search index entries of records */
+function removeEntries(db: DatabaseSync, ids: string[]): void {
+  const removeTerms = db.prepare("DELETE FROM memories_terms WHERE id = ?");
+  const removeDoc = db.prepare("DELETE FROM memories_docs WHERE id = ?");
+  for (const id of ids) {
+    removeTerms.run(id);
+    removeDoc.run(id);
+  }
+}
+
+/** Reads the search index entries back into an in-memory index */
+function readEntries(db: DatabaseSync): SearchIndex {
+  const entries = new Map<string, IndexEntry>();
+  for (const row of db.prepare("SELECT id, length, vector FROM memories_docs").all() as Array<{ id: string; length: number; vector: string }>) {
+    entries.set(row.id, { tf: {}, length: row.length, vector: JSON.parse(row.vector) });
+  }
+  for (const row of db.prepare("SELECT term, id, tf FROM memories_terms").all() as Array<{ term: string; id: string; tf: number }>) {
+    const entry = entries.get(row.id);
+    if (entry) entry.tf[row.term] = row.tf;
+  }
+  const index = emptyIndex();
+  for (const [id, entry] of entries) addEntry(index, id, entry);
+  return index;
+}
+
+/** Loads node:sqlite on first use, so the JSON backend runs on Node versions without it */
+function openDatabase(filePath: string): DatabaseSync {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = createRequire(import.meta.url)("node:sqlite");
+  } catch {
+    throw new Error(`The sqlite backend needs Node.js 22.13 or later (node:sqlite is not available in ${process.version}).`);
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const fresh = !fs.existsSync(filePath);
+  const db = new sqlite.DatabaseSync(filePath);
+  const has = (name: string) => Boolean(db.prepare("SELECT 1 FROM sqlite_master WHERE name = ?").get(name));
+  const textIndexed = has("memories_text");
+  const entriesIndexed = has("memories_docs");
+  db.exec(SCHEMA);
+  if (fresh) db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  else {
+    if (!textIndexed) db.exec(TEXT_BACKFILL);
+    if (!entriesIndexed) {
+      const rows = db.prepare("SELECT data FROM memories ORDER BY seq").all() as Array<{ data: string }>;
+      writeEntries(db, rows.map((row) => JSON.parse(row.data) as MemoryRecord));
+    }
+  }
+  return db;
+}
+
+/**
+ * Creates a storage for a SQLite database. The database is opened on the
+ * first call that needs it; loading a missing file returns no records
+ * without creating it. Databases from before versioning have
+ * `user_version` 0 and count as schema version 1.
+ *
+ * @param filePath - Resolved path of the database file
+ */
+export function sqliteStorage(filePath: string): MemoryStorage {
+  let db: DatabaseSync | null = null;
+  const open = () => (db ??= openDatabase(filePath));
+  const missing = () => !db && !fs.existsSync(filePath);
+  const inTransaction = (fn: (d: DatabaseSync) => void) => {
+    const d = open();
+    d.exec("BEGIN");
+    try {
+      fn(d);
+      d.exec("COMMIT");
+    } catch (err) {
+      d.exec("ROLLBACK");
+      throw err;
+    }
+  };
+  const insert = (d: DatabaseSync, records: MemoryRecord[]) => {
+    const stmt = d.prepare("INSERT INTO memories (id, data) VALUES (?, ?)");
+    for (const r of records) stmt.run(r.id, JSON.stringify(r));
+    writeEntries(d, records);
+  };
+  const one = (sql: string, param: string | number) => {
+    if (missing()) return undefined;
+    const row = open().prepare(sql).get(param) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as MemoryRecord) : undefined;
+  };
+  return {
+    backend: "sqlite",
+    path: filePath,
+    load() {
+      if (missing()) return [];
+      const rows = open().prepare("SELECT data FROM memories ORDER BY seq").all() as Array<{ data: string }>;
+      return rows.map((row) => JSON.parse(row.data) as MemoryRecord);
+    },
+    version() {
+      if (missing()) return SCHEMA_VERSION;
+      const row = open().prepare("PRAGMA user_version").get() as { user_version: number };
+      return Math.max(1, row.user_version);
+    },
+    upgrade(records) {
+      inTransaction((d) => {
+        d.exec("DELETE FROM memories; DELETE FROM memories_terms; DELETE FROM memories_docs;");
+        insert(d, records);
+        d.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+      });
+    },
+    append(records) {
+      inTransaction((d) => insert(d, records));
+    },
+    update(records) {
+      inTransaction((d) => {
+        const stmt = d.prepare("UPDATE memories SET data = ? WHERE id = ?");
+        for (const r of records) stmt.run(JSON.stringify(r), r.id);
+        writeEntries(d, records);
+      });
+    },
+    delete(ids) {
+      inTransaction((d) => {
+        const stmt = d.prepare("DELETE FROM memories WHERE id = ?");
+        for (const id of ids) stmt.run(id);
+        removeEntries(d, ids);
+      });
+    },
+    containing(needle) {
+      if (!TRIGRAM_NEEDLE.test(needle)) return null;
+      if (missing()) return [];
+      const phrase = `"${needle.replace(/"/g, '""')}"`;
+      const rows = open().prepare("SELECT m.id FROM memories_text t JOIN memories m ON m.seq = t.rowid WHERE memories_text MATCH ?").all(phrase) as Array<{ id: string }>;
+      return rows.map((row) => row.id);
+    },
+    direct: {
+      byId: (id) => one("SELECT data FROM memories WHERE id = ?", id),
+      byAdr: (n) => one(`SELECT data FROM memories WHERE ${ADR_NUMBER} = ? ORDER BY seq LIMIT 1`, n),
+      maxAdr() {
+        if (missing()) return 0;
+        const row = open().prepare(`SELECT MAX(${ADR_NUMBER}) AS n FROM memories`).get() as { n: number | null };
+        return row.n ?? 0;
+      },
+      texts() {
+        if (missing()) return [];
+        const rows = open().prepare("SELECT m.id, t.text FROM memories_text t JOIN memories m ON m.seq = t.rowid ORDER BY m.seq").all() as Array<{ id: string; text: string }>;
+        return rows.map((row) => ({ id: row.id, text: row.text, deletedAt: null }));
+      },
+      index: () => (missing() ? emptyIndex() : readEntries(open())),
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Code-aware tokenization for keyword extraction.
+ *
+ * Memories are mostly about code, so identifiers, file paths and package
+ * names are kept as searchable units and also split into their parts:
+ *
+ * - `useAuthContext` -> `useauthcontext`, `use`, `auth`, `context`
+ * - `max_retry_count` -> `max_retry_count`, `max`, `retry`, `count`
+ * - `src/auth/provider.ts` -> the path, `src`, `auth`, `provider.ts`, `provider`, `ts`
+ * - `@tanstack/react-query` -> the package, `tanstack`, `react-query`, `react`, `query`
+ * - `.NET` -> `.net`, `net`
+ *
+ * Letters and digits from any script count as word characters, so accented
+ * words stay intact. Chinese, Japanese and Korean text, which is written
+ * without spaces, is split into words with `Intl.Segmenter`.
+ *
+ * Tokens are returned lowercased and unfiltered; stop words and length
+ * limits are applied by the caller.
+ *
+ * @module tokenizer
+ */
+
+/** Characters that can appear inside a code token; everything else separates */
+const SEPARATOR_RE = /[^\p{L}\p{N}\p{M}_@./\\-]+/u;
+
+/** Runs of CJK text, which need dictionary-based word segmentation */
+const CJK_RUN_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]+/gu;
+
+/** Matches any CJK character */
+export const CJK_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** Word segmenter for CJK runs (created on first use) */
+let segmenter: Intl.Segmenter | null = null;
+
+/**
+ * Splits a run of CJK text into words, separated by spaces.
+ * Falls back to overlapping character bigrams if `Intl.Segmenter` is unavailable.
+ */
+function segmentCjk(run: string): string {
+  if (typeof Intl.Segmenter !== "function") {
+    const chars = Array.from(run);
+    if (chars.length < 3) return run;
+    return chars.slice(0, -1).map((c, i) => c + chars[i + 1]).join(" ");
+  }
+  segmenter ??= new Intl.Segmenter(undefined, { granularity: "word" });
+  return Array.from(segmenter.segment(run))
+    .filter((s) => s.isWordLike)
+    .map((s) => s.segment)
+    .join(" ");
+}
+
+/** Characters joining the parts of a compound (path, package, dotted name) */
+const COMPOUND_RE = /[@./\\-]/;
+
+/**
+ * Splits an identifier on camelCase, PascalCase, acronym and snake_case
+ * boundaries.
+ *
+ * @param word - Identifier with original casing
+ * @returns Parts in order (a single-element array if there is nothing to split)
+ *
+ * @example
+ * splitIdentifier("useAuthContext") // ["use", "Auth", "Context"]
+ * splitIdentifier("HTTPServer")     // ["HTTP", "Server"]
+ * splitIdentifier("max_retry")      // ["max", "retry"]
+ */
+export function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[_\s]+/)
+    .filter(Boolean);
+}
+
+/** Pushes an identifier and, if it splits, each of its parts */
+function pushIdentifier(out: string[], word: string): void {
+  const parts = splitIdentifier(word);
+  if (parts.length !== 1 || parts[0] !== word) out.push(word.toLowerCase());
+  for (const p of parts) out.push(p.toLowerCase());
+}
+
+/**
+ * Splits text into lowercase code-aware tokens.
+ *
+ * Compound units (paths, scoped packages, dotted and hyphenated names)
+ * come first, followed by the segments and identifier parts they contain.
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance, with repeats
+ */
+export function codeTokens(text: string): string[] {
+  const out: string[] = [];
+  const normalized = (text || "").normalize("NFC").replace(CJK_RUN_RE, (run) => ` ${segmentCjk(run)} `);
+  for (const raw of normalized.split(SEPARATOR_RE)) {
+    // Trailing punctuation ends a sentence, not a name; a leading dot (".NET")
+    // or slash ("/etc/hosts") and a leading @ (scoped package) are kept
+    const chunk = raw.replace(/^[-_]+/, "").replace(/[-_.@/\\]+$/, "");
+    if (!/[\p{L}\p{N}]/u.test(chunk)) continue;
+    if (!COMPOUND_RE.test(chunk)) {
+      pushIdentifier(out, chunk);
+      continue;
+    }
+    out.push(chunk.toLowerCase());
+    for (const segment of chunk.split(/[@/\\]+/)) {
+      if (!segment || segment === "." || segment === "..") continue;
+      const parts = segment.split(/[.-]+/).filter(Boolean);
+      if (parts.length > 1 && segment !== chunk) out.push(segment.toLowerCase());
+      for (const p of parts) pushIdentifier(out, p);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Local hashed vectors for offline semantic-ish matching.
+ *
+ * Turns text into a sparse vector of feature-hashed word unigrams and
+ * character trigrams. No model download or network access is needed, and
+ * the same text always produces the same vector. Cosine similarity between
+ * vectors catches spelling variants, inflections, and partial words that
+ * exact keyword matching misses (e.g. "postgres" vs "PostgreSQL",
+ * "migration" vs "migrations").
+ *
+ * @module vectors
+ */
+
+/** Number of hash buckets (feature dimensions) */
+const DIMS = 1 << 12;
+
+/** Relative weight of whole-word features vs character trigrams */
+const WORD_WEIGHT = 2;
+
+/**
+ * Sparse vector as [dimension, weight] pairs sorted by dimension,
+ * L2-normalized so cosine similarity is a plain dot product.
+ */
+export type SparseVector = Array<[number, number]>;
+
+/** 32-bit FNV-1a hash of a string */
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Computes the hashed feature vector for a tokenized piece of text.
+ *
+ * Features are each word plus the character trigrams of `#word#`.
+ * Counts are dampened with 1 + ln(count) before normalization.
+ *
+ * @param words - Lowercase word tokens (see searchIndex.wordTokens)
+ * @returns Normalized sparse vector (empty if there are no words)
+ */
+export function embed(words: string[]): SparseVector {
+  const counts = new Map<number, number>();
+  const add = (feature: string, w: number) => {
+    const dim = fnv1a(feature) % DIMS;
+    counts.set(dim, (counts.get(dim) || 0) + w);
+  };
+
+  for (const word of words) {
+    add(`w:${word}`, WORD_WEIGHT);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 1);
+  }
+
+  const entries = Array.from(counts.entries()).map(([dim, c]) => [dim, 1 + Math.log(c)] as [number, number]);
+  const norm = Math.sqrt(entries.reduce((a, [, w]) => a + w * w, 0));
+  if (norm === 0) return [];
+  return entries
+    .map(([dim, w]) => [dim, Math.round((w / norm) * 1e4) / 1e4] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Cosine similarity of two normalized sparse vectors.
+ *
+ * @param a - First vector (sorted by dimension)
+ * @param b - Second vector (sorted by dimension)
+ * @returns Similarity in [0, 1]
+ */
+export function cosine(a: SparseVector, b: SparseVector): number {
+  let i = 0;
+  let j = 0;
+  let dot = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i][0] === b[j][0]) { dot += a[i][1] * b[j][1]; i++; j++; }
+    else if (a[i][0] < b[j][0]) i++;
+    else j++;
+  }
+  return Math.max(0, Math.min(1, dot));
+}
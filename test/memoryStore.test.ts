@@ -0,0 +1,460 @@
+/**
+ * Round-trip tests for the memory store: writes, search and its query
+ * syntax, links, expiry, duplicates and conflicts, locks, the journal,
+ * backups, schema migration and the persisted search index. Each test
+ * works on its own temporary store.
+ *
+ * Run with `npm test`.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { spawnSync } from "node:child_process";
+import { addAdr, addMemory, breakLock, compactJournal, compressDeterministic, dedupe, expiringMemories, findConflicts, findDuplicates, findMemory, gcTombstones, isExpired, linkMemories, loadStore, lockStatus, neighbours, parseExpiry, parseQuery, purge, readStoreJournal, replayStore, restoreBackup, restoreById, search, setExpiry, setPinned, softDeleteById, updateAdr, updateMemory, type Ranker } from "../src/memoryStore.js";
+import { readIndex, resolveIndexPath } from "../src/searchIndex.js";
+import { storageFor } from "../src/storage.js";
+
+// Only the stores a test names explicitly
+process.env.MEMORY_GLOBAL_PATH = "none";
+delete process.env.MEMORY_LOCK_PATH;
+
+/** Whether this Node.js has node:sqlite (22.13+), which the sqlite backend needs */
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+/** Creates an empty directory for one test's store and returns the store path */
+function tempStore(t: { after: (fn: () => void) => void }, name = "memory.json"): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-store-test-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, name);
+}
+
+/** Sets environment variables for one test, restoring them after it */
+function setEnv(t: { after: (fn: () => void) => void }, vars: Record<string, string>): void {
+  const saved = Object.fromEntries(Object.keys(vars).map((k) => [k, process.env[k]]));
+  Object.assign(process.env, vars);
+  t.after(() => {
+    for (const [k, v] of Object.entries(saved)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  });
+}
+
+/** Points the layers at a fresh global and project store for one test */
+function tempLayers(t: { after: (fn: () => void) => void }): { global: string; project: string } {
+  const global = tempStore(t, "global.json");
+  const project = tempStore(t, "project.json");
+  setEnv(t, { MEMORY_PATH: project, MEMORY_GLOBAL_PATH: global });
+  return { global, project };
+}
+
+/** Searches a store the way the CLI and MCP server do, returning ids and scores (rounded, as recency drifts) */
+function scores(mp: string, query: string, ranker: Ranker = "legacy"): Record<string, number> {
+  const hits = search(loadStore(mp).records, query, 10, { ranker });
+  return Object.fromEntries(hits.map((h) => [h.id, Math.round(h.score * 1000) / 1000]));
+}
+
+test("a written memory is found by search", async (t) => {
+  const mp = tempStore(t);
+  const { record } = await addMemory({ memoryPath: mp, text: "Use PostgreSQL 16 for billing data", tags: ["database"] });
+  await addMemory({ memoryPath: mp, text: "Prefer tabs in Makefiles" });
+
+  const hits = search(loadStore(mp).records, "postgresql", 10);
+  assert.equal(hits[0].id, record.id);
+  assert.deepEqual(hits[0].tags, ["database"]);
+  assert.ok(fs.existsSync(resolveIndexPath(mp)), "the search index is persisted next to the store");
+});
+
+test("restoring a backup after a purge leaves search as it was", async (t) => {
+  const mp = tempStore(t);
+  const a = await addMemory({ memoryPath: mp, text: "Deploy billing with blue-green releases", tags: ["deploy"] });
+  const b = await addMemory({ memoryPath: mp, text: "Deploy docs on every merge to main", tags: ["deploy"] });
+  const before = { legacy: scores(mp, "deploy"), hybrid: scores(mp, "deploy", "hybrid") };
+
+  // The restore then re-adds a record that is still live
+  const purged = await purge({ memoryPath: mp, id: a.record.id });
+  assert.equal(purged.purged, 1);
+  assert.ok(purged.backup);
+  assert.deepEqual(Object.keys(scores(mp, "deploy")), [b.record.id]);
+
+  const restored = await restoreBackup({ memoryPath: mp, name: "latest" });
+  assert.equal(restored.restored, 2);
+
+  const index = readIndex(resolveIndexPath(mp));
+  assert.ok(index);
+  assert.deepEqual(Object.keys(index.docs).sort(), [a.record.id, b.record.id].sort());
+  assert.deepEqual(Object.keys(index.vectors).sort(), [a.record.id, b.record.id].sort());
+  assert.deepEqual(scores(mp, "deploy"), before.legacy);
+  assert.deepEqual(scores(mp, "deploy", "hybrid"), before.hybrid);
+});
+
+test("pinned memories lead compressed context whatever the query", async (t) => {
+  const mp = tempStore(t);
+  const pin = await addMemory({ memoryPath: mp, text: "I am colorblind; never rely on red versus green" });
+  await addMemory({ memoryPath: mp, text: "Deploy billing with blue-green releases", tags: ["deploy"] });
+  assert.equal((await setPinned({ memoryPath: mp, id: pin.record.id, pinned: true })).changed, true);
+
+  const { markdown, included } = compressDeterministic({ records: loadStore(mp).records, query: "billing", budget: 2000 });
+  assert.equal(included[0].id, pin.record.id);
+  assert.ok(markdown.indexOf("## Pinned") < markdown.indexOf("blue-green"));
+
+  await setPinned({ memoryPath: mp, id: pin.record.id, pinned: false });
+  const after = compressDeterministic({ records: loadStore(mp).records, query: "billing", budget: 2000 });
+  assert.ok(!after.markdown.includes("## Pinned"));
+  assert.notEqual(after.included[0].id, pin.record.id);
+});
+
+test("sqlite stores find substring hits through FTS5 and rank like JSON stores", { skip: !hasSqlite && "node:sqlite is not available" }, async (t) => {
+  const json = tempStore(t);
+  const db = tempStore(t, "memory.db");
+  const texts = ["Use PostgreSQL 16 for billing", "Postgres backups run nightly", "Prefer node.js 20 with C++ addons", "Short ids: a1, b2"];
+  const ids: Record<string, string[]> = { json: [], db: [] };
+  for (const text of texts) {
+    ids.json.push((await addMemory({ memoryPath: json, text })).record.id);
+    ids.db.push((await addMemory({ memoryPath: db, text })).record.id);
+  }
+  await updateMemory({ memoryPath: db, id: ids.db[0], text: "Use PostgreSQL 17 for billing" });
+  await updateMemory({ memoryPath: json, id: ids.json[0], text: "Use PostgreSQL 17 for billing" });
+  await softDeleteById({ memoryPath: db, id: ids.db[1] });
+  await softDeleteById({ memoryPath: json, id: ids.json[1] });
+
+  // Triggers keep the text index in step with updates and tombstones
+  assert.deepEqual(storageFor(db).containing("gresql 17"), [ids.db[0]]);
+  assert.deepEqual(storageFor(db).containing("backups"), []);
+  assert.equal(storageFor(db).containing("a1"), null, "too short for trigrams");
+
+  const byText = (mp: string, query: string) => Object.fromEntries(search(loadStore(mp).records, query, 10).map((h) => [h.text, Math.round(h.score)]));
+  for (const query of ["postgres", "gresql", "node.js", "c++", "a1", "billing nightly"]) {
+    assert.deepEqual(byText(db, query), byText(json, query), query);
+  }
+});
+
+test("sqlite writes read and index only the rows they change", { skip: !hasSqlite && "node:sqlite is not available" }, async (t) => {
+  const db = tempStore(t, "memory.db");
+  const a = await addMemory({ memoryPath: db, text: "Use PostgreSQL 16 for billing" });
+  const adr = await addAdr({ memoryPath: db, title: "Queue", context: "Jobs pile up", decision: "Use SQS" });
+
+  // Every write below must go through single-row reads
+  const storage = storageFor(db);
+  const load = storage.load;
+  storage.load = () => assert.fail("the whole store was loaded");
+  try {
+    const { duplicates } = await addMemory({ memoryPath: db, text: "Use PostgreSQL 16 for billing!" });
+    assert.deepEqual(duplicates.map((d) => d.id), [a.record.id]);
+    await updateMemory({ memoryPath: db, id: a.record.id, text: "Use PostgreSQL 17 for billing" });
+    await updateAdr({ memoryPath: db, id: "ADR-1", status: "proposed" });
+    assert.equal((await addAdr({ memoryPath: db, title: "Cache", context: "Slow reads", decision: "Use Redis" })).adr?.number, 2);
+    await linkMemories({ memoryPath: db, from: "ADR-2", to: adr.id, type: "relates_to" });
+    await softDeleteById({ memoryPath: db, id: a.record.id });
+    await restoreById({ memoryPath: db, id: a.record.id });
+  } finally {
+    storage.load = load;
+  }
+
+  assert.ok(!fs.existsSync(resolveIndexPath(db)), "sqlite keeps its index in the database");
+  assert.equal(search(loadStore(db).records, "postgresql 17", 10)[0].id, a.record.id);
+  assert.equal(findMemory(loadStore(db).records, "ADR-1")?.adr?.status, "proposed");
+});
+
+test("an edit keeps the id and creation time, and records a revision", async (t) => {
+  const mp = tempStore(t);
+  const { record } = await addMemory({ memoryPath: mp, text: "Use PostgreSQL 16", tags: ["database"] });
+
+  const res = await updateMemory({ memoryPath: mp, id: record.id, text: "Use PostgreSQL 17", tags: ["Database", "billing"], source: "test" });
+  assert.equal(res.found, true);
+  const [stored] = loadStore(mp).records;
+  assert.equal(stored.id, record.id);
+  assert.equal(stored.createdAt, record.createdAt);
+  assert.equal(stored.text, "Use PostgreSQL 17");
+  assert.deepEqual(stored.tags, ["database", "billing"]);
+  assert.deepEqual(stored.revisions?.map((r) => [r.rev, r.text, r.source]), [[1, "Use PostgreSQL 16", undefined], [2, "Use PostgreSQL 17", "test"]]);
+
+  assert.deepEqual(await updateMemory({ memoryPath: mp, id: "m_missing", text: "x" }), { found: false });
+  await softDeleteById({ memoryPath: mp, id: record.id });
+  await assert.rejects(updateMemory({ memoryPath: mp, id: record.id, text: "Use MySQL" }), /deleted memory/);
+});
+
+test("gc removes only tombstones older than the retention window", async (t) => {
+  const mp = tempStore(t);
+  const old = await addMemory({ memoryPath: mp, text: "Deploy with Capistrano" });
+  const recent = await addMemory({ memoryPath: mp, text: "Deploy with Ansible" });
+  const live = await addMemory({ memoryPath: mp, text: "Deploy with Terraform" });
+  await softDeleteById({ memoryPath: mp, id: old.record.id });
+  await softDeleteById({ memoryPath: mp, id: recent.record.id });
+
+  // Backdate one tombstone past the default 30 days
+  const file = JSON.parse(fs.readFileSync(mp, "utf-8"));
+  file.records.find((r: { id: string }) => r.id === old.record.id).deletedAt = new Date(Date.now() - 40 * 86_400_000).toISOString();
+  fs.writeFileSync(mp, JSON.stringify(file));
+
+  const dry = await gcTombstones({ memoryPath: mp, dryRun: true });
+  assert.deepEqual(dry.ids, [old.record.id]);
+  assert.equal(loadStore(mp).records.length, 3);
+
+  const res = await gcTombstones({ memoryPath: mp });
+  assert.deepEqual([res.purged, res.retentionDays], [1, 30]);
+  assert.ok(res.backup);
+  assert.deepEqual(loadStore(mp).records.map((r) => r.id), [recent.record.id, live.record.id]);
+
+  assert.deepEqual((await gcTombstones({ memoryPath: mp, retentionDays: 0 })).ids, [recent.record.id]);
+});
+
+test("query operators parse into filters and narrow search", async (t) => {
+  assert.deepEqual(parseQuery('tag:Decision -tag:deprecated kind:todo -kind:episode "event sourcing" -kafka -"big bang" id:m_1 -id:m_2 queue after:2025-01-01 before:2025-02-01'), {
+    terms: ["queue"],
+    phrases: ["event sourcing"],
+    exclude: ["kafka", "big bang"],
+    tags: ["decision"],
+    excludeTags: ["deprecated"],
+    kinds: ["todo"],
+    excludeKinds: ["episode"],
+    ids: ["m_1"],
+    excludeIds: ["m_2"],
+    after: Date.parse("2025-01-01T00:00:00Z"),
+    before: Date.parse("2025-02-01T00:00:00Z"),
+  });
+  for (const bad of ['"open', "kind:nope", "-after:2025-01-01", "after:soon", "after:2025-02-01 before:2025-01-01", "- word", "tag:"]) {
+    assert.throws(() => parseQuery(bad), /Invalid query/, bad);
+  }
+
+  const mp = tempStore(t);
+  const kafka = await addMemory({ memoryPath: mp, text: "Use Kafka for event sourcing", tags: ["decision", "events"] });
+  const rabbit = await addMemory({ memoryPath: mp, text: "Use RabbitMQ for the job queue", tags: ["decision"] });
+  const todo = await addMemory({ memoryPath: mp, text: "Move the job queue to event sourcing", kind: "todo" });
+  const { records } = loadStore(mp);
+  const ids = (query: string) => search(records, query, 10).map((h) => h.id).sort();
+
+  assert.deepEqual(ids("tag:decision"), [kafka.record.id, rabbit.record.id].sort());
+  assert.deepEqual(ids('"use" -tag:events'), [rabbit.record.id]);
+  assert.deepEqual(ids("kind:todo"), [todo.record.id]);
+  assert.deepEqual(ids('"job queue" -kind:todo'), [rabbit.record.id]);
+  assert.deepEqual(ids('"event sourcing"'), [kafka.record.id, todo.record.id].sort());
+  assert.deepEqual(ids('"event sourcing" -kafka'), [todo.record.id]);
+  assert.deepEqual(ids(`tag:decision -id:${kafka.record.id}`), [rabbit.record.id]);
+  const tomorrow = new Date(Date.now() + 86_400_000).toISOString().slice(0, 10);
+  assert.deepEqual(ids(`tag:decision after:${tomorrow}`), []);
+  assert.deepEqual(ids(`kind:todo before:${tomorrow}`), [todo.record.id]);
+});
+
+test("task text is searched as plain words, never rejected as query syntax", async (t) => {
+  const mp = tempStore(t);
+  const flaky = await addMemory({ memoryPath: mp, text: "Retry flaky e2e tests in the checkout flow once before failing" });
+  await addMemory({ memoryPath: mp, text: "Releases go out on Tuesdays" });
+  const { records } = loadStore(mp);
+
+  for (const task of ["fix flaky e2e tests - checkout flow", 'rename the "auth provider in checkout', "deploy after: the flaky release"]) {
+    assert.throws(() => search(records, task, 10), /Invalid query/, task);
+    const { included } = compressDeterministic({ records, query: task, budget: 2000, syntax: false });
+    assert.ok(included.some((h) => h.id === flaky.record.id), task);
+  }
+  assert.equal(search(records, "kind:todo flaky", 10, { syntax: false })[0].id, flaky.record.id);
+});
+
+test("links supersede ADRs, demote them in search, and stay within one layer", async (t) => {
+  const mp = tempStore(t);
+  const rest = await addAdr({ memoryPath: mp, title: "REST API", context: "Clients need an API", decision: "Serve REST over HTTP" });
+  const graphql = await addMemory({ memoryPath: mp, text: "Serve a GraphQL API instead of REST", kind: "decision" });
+
+  await assert.rejects(linkMemories({ memoryPath: mp, from: "ADR-1", to: rest.id, type: "relates_to" }), /itself/);
+  await assert.rejects(linkMemories({ memoryPath: mp, from: graphql.record.id, to: "ADR-1", type: "replaces" }), /Unknown link type/);
+  assert.deepEqual(await linkMemories({ memoryPath: mp, from: graphql.record.id, to: "ADR-9", type: "supersedes" }), { found: false, changed: false });
+
+  assert.equal((await linkMemories({ memoryPath: mp, from: graphql.record.id, to: "ADR-1", type: "supersedes" })).changed, true);
+  assert.equal((await linkMemories({ memoryPath: mp, from: graphql.record.id, to: "ADR-1", type: "supersedes" })).changed, false);
+  const { records } = loadStore(mp);
+  assert.equal(findMemory(records, "ADR-1")?.adr?.status, "superseded");
+  assert.deepEqual(neighbours(records, findMemory(records, "ADR-1")!).incoming.map((n) => [n.type, n.id]), [["supersedes", graphql.record.id]]);
+  const hits = search(records, "api", 10);
+  assert.equal(hits[0].id, graphql.record.id);
+  assert.deepEqual(hits.find((h) => h.id === rest.id)?.supersededBy, [graphql.record.id]);
+  assert.ok(!search(records, "api", 10, { superseded: "exclude" }).some((h) => h.id === rest.id));
+
+  assert.equal((await linkMemories({ memoryPath: mp, from: graphql.record.id, to: rest.id, type: "supersedes", remove: true })).changed, true);
+  assert.equal(findMemory(loadStore(mp).records, graphql.record.id)?.links, undefined);
+
+  const layers = tempLayers(t);
+  const global = await addMemory({ memoryPath: layers.global, text: "Prefer short commit subjects" });
+  const project = await addMemory({ memoryPath: layers.project, text: "Commit subjects start with the ticket id" });
+  await assert.rejects(linkMemories({ from: project.record.id, to: global.record.id, type: "relates_to" }), /Cross-layer links are not supported/);
+  await assert.rejects(linkMemories({ from: global.record.id, to: project.record.id, type: "relates_to" }), /Cross-layer links are not supported/);
+});
+
+test("expired memories drop out of search until renewed", async (t) => {
+  const mp = tempStore(t);
+  const from = Date.parse("2026-01-01T00:00:00Z");
+  assert.equal(parseExpiry("12h", from), "2026-01-01T12:00:00.000Z");
+  assert.equal(parseExpiry("2w", from), "2026-01-15T00:00:00.000Z");
+  assert.equal(parseExpiry("2026-11-01"), "2026-11-01T00:00:00.000Z");
+  assert.throws(() => parseExpiry("soon"), /Invalid expiry/);
+  await assert.rejects(addMemory({ memoryPath: mp, text: "Freeze deploys", expires: "3x" }), /Invalid expiry/);
+
+  const freeze = await addMemory({ memoryPath: mp, text: "Code freeze on deploys this week", expires: "7d" });
+  assert.ok(!isExpired(freeze.record));
+  assert.deepEqual(search(loadStore(mp).records, "freeze", 10).map((h) => h.id), [freeze.record.id]);
+
+  await setExpiry({ memoryPath: mp, id: freeze.record.id, expires: "2020-01-01" });
+  let records = loadStore(mp).records;
+  assert.ok(isExpired(records[0]));
+  assert.deepEqual(search(records, "freeze", 10), []);
+  assert.deepEqual(expiringMemories(records).map((r) => r.id), [freeze.record.id]);
+
+  await setExpiry({ memoryPath: mp, id: freeze.record.id, expires: "14d" });
+  assert.deepEqual(search(loadStore(mp).records, "freeze", 10).map((h) => h.id), [freeze.record.id]);
+  await setExpiry({ memoryPath: mp, id: freeze.record.id, expires: null });
+  records = loadStore(mp).records;
+  assert.equal(records[0].expiresAt, undefined);
+  assert.deepEqual(expiringMemories(records), []);
+});
+
+test("near-duplicates are reported on write and merged by dedupe", async (t) => {
+  const mp = tempStore(t);
+  const first = await addMemory({ memoryPath: mp, text: "Always use TypeScript strict mode", tags: ["typescript"] });
+  const again = await addMemory({ memoryPath: mp, text: "Use TypeScript strict mode, always.", tags: ["config"] });
+  assert.deepEqual(again.duplicates.map((d) => d.id), [first.record.id]);
+  assert.ok(again.duplicates[0].similarity >= 0.7);
+  assert.deepEqual((await addMemory({ memoryPath: mp, text: "Deploy on Fridays is forbidden" })).duplicates, []);
+  await setPinned({ memoryPath: mp, id: again.record.id, pinned: true });
+
+  const dry = await dedupe({ memoryPath: mp, dryRun: true });
+  assert.deepEqual(dry.clusters.map((c) => [c.keep.id, c.drop.map((d) => d.id)]), [[first.record.id, [again.record.id]]]);
+  assert.equal(dry.merged, 0);
+
+  const res = await dedupe({ memoryPath: mp });
+  assert.equal(res.merged, 1);
+  assert.ok(res.backup);
+  const { records } = loadStore(mp);
+  const kept = findMemory(records, first.record.id)!;
+  assert.deepEqual(kept.tags, ["typescript", "config"]);
+  assert.equal(kept.pinned, true);
+  assert.deepEqual(kept.links?.map((l) => [l.type, l.target]), [["supersedes", again.record.id]]);
+  assert.ok(findMemory(records, again.record.id)?.deletedAt);
+  assert.deepEqual(findDuplicates(records, "Use TypeScript strict mode always").map((d) => d.id), [first.record.id]);
+
+  // Duplicates are looked for in the store being written, not in other layers
+  const layers = tempLayers(t);
+  await addMemory({ memoryPath: layers.global, text: "Always use TypeScript strict mode" });
+  assert.equal(findDuplicates(loadStore().records, "Always use TypeScript strict mode").length, 1);
+  assert.deepEqual(findDuplicates(loadStore(layers.project).records, "Always use TypeScript strict mode"), []);
+  assert.deepEqual((await addMemory({ memoryPath: layers.project, text: "Always use TypeScript strict mode" })).duplicates, []);
+});
+
+test("contradicting memories are flagged until one supersedes the other", async (t) => {
+  const mp = tempStore(t);
+  const semi = await addMemory({ memoryPath: mp, text: "Always use semicolons in JavaScript", kind: "convention" });
+  const noSemi = await addMemory({ memoryPath: mp, text: "Never use semicolons in JavaScript", kind: "convention" });
+  const tabs = await addMemory({ memoryPath: mp, text: "Indent with tabs", kind: "preference" });
+  const spaces = await addMemory({ memoryPath: mp, text: "Indent with spaces", kind: "preference" });
+  await addMemory({ memoryPath: mp, text: "Deploy billing with blue-green releases" });
+
+  const pairs = (records = loadStore(mp).records) => findConflicts(records).map((c) => [c.a.id, c.b.id, c.method]);
+  assert.deepEqual(pairs(), [[semi.record.id, noSemi.record.id, "opposite"], [tabs.record.id, spaces.record.id, "value"]]);
+  const { markdown } = compressDeterministic({ records: loadStore(mp).records, query: "semicolons", budget: 2000 });
+  assert.ok(markdown.includes("## ⚠️ Possible conflicts"));
+
+  await linkMemories({ memoryPath: mp, from: noSemi.record.id, to: semi.record.id, type: "supersedes" });
+  assert.deepEqual(pairs(), [[tabs.record.id, spaces.record.id, "value"]]);
+  await linkMemories({ memoryPath: mp, from: spaces.record.id, to: tabs.record.id, type: "supersedes" });
+  assert.deepEqual(pairs(), []);
+
+  const a = await addMemory({ memoryPath: mp, text: "Release notes go in CHANGELOG.md" });
+  const b = await addMemory({ memoryPath: mp, text: "Release notes live in the wiki" });
+  await linkMemories({ memoryPath: mp, from: b.record.id, to: a.record.id, type: "contradicts" });
+  assert.deepEqual(pairs(), [[a.record.id, b.record.id, "linked"]]);
+});
+
+test("the journal replays past states, including purged records, until it is compacted", async (t) => {
+  const mp = tempStore(t);
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+  const a = await addMemory({ memoryPath: mp, text: "Use PostgreSQL 16" });
+  await tick();
+  const b = await addMemory({ memoryPath: mp, text: "Prefer tabs in Makefiles" });
+  await tick();
+  await updateMemory({ memoryPath: mp, id: a.record.id, text: "Use PostgreSQL 17" });
+  await tick();
+  await purge({ memoryPath: mp, id: b.record.id });
+
+  const { entries } = readStoreJournal({ memoryPath: mp });
+  assert.deepEqual(entries.map((e) => e.op), ["add", "add", "update", "purge"]);
+  const before = await replayStore({ memoryPath: mp, until: entries[1].at });
+  assert.equal(before.applied, 2);
+  assert.deepEqual(before.records.map((r) => r.text), ["Use PostgreSQL 16", "Prefer tabs in Makefiles"]);
+  assert.deepEqual((await replayStore({ memoryPath: mp })).records.map((r) => r.text), ["Use PostgreSQL 17"]);
+  await assert.rejects(replayStore({ memoryPath: mp, until: "yesterday-ish" }), /Invalid timestamp/);
+
+  // The replayed state can be saved as a new store, never over the live one
+  const out = path.join(path.dirname(mp), "before.json");
+  await replayStore({ memoryPath: mp, until: entries[1].at, out });
+  assert.deepEqual(loadStore(out).records.map((r) => r.id), [a.record.id, b.record.id]);
+  await assert.rejects(replayStore({ memoryPath: mp, out: mp }), /live store/);
+
+  const compacted = await compactJournal({ memoryPath: mp });
+  assert.deepEqual(compacted, { removed: 4, records: 1 });
+  const after = readStoreJournal({ memoryPath: mp }).entries;
+  assert.deepEqual(after.map((e) => e.op), ["snapshot"]);
+  await assert.rejects(replayStore({ memoryPath: mp, until: entries[1].at }), /earlier states cannot be reconstructed/);
+  assert.deepEqual((await replayStore({ memoryPath: mp })).records.map((r) => r.text), ["Use PostgreSQL 17"]);
+});
+
+test("stale locks are reclaimed and live ones time out", async (t) => {
+  const mp = tempStore(t);
+  const lockPath = path.join(path.dirname(mp), ".copilot-memory.lock");
+  const deadPid = spawnSync(process.execPath, ["-e", ""]).pid!;
+  setEnv(t, { MEMORY_LOCK_TIMEOUT_MS: "200" });
+
+  // Left behind by a process that is gone
+  fs.writeFileSync(lockPath, `${deadPid} ${new Date().toISOString()}\n`);
+  assert.deepEqual([lockStatus({ memoryPath: mp }).alive, lockStatus({ memoryPath: mp }).stale], [false, true]);
+  await addMemory({ memoryPath: mp, text: "Use PostgreSQL 16" });
+  assert.equal(lockStatus({ memoryPath: mp }).held, false);
+  assert.deepEqual(fs.readdirSync(path.dirname(mp)).filter((f) => f.includes(".stale.")), [], "the claimed lock is cleaned up");
+
+  // Held by a running process (this one), taken just now
+  fs.writeFileSync(lockPath, `${process.pid} ${new Date().toISOString()}\n`);
+  assert.equal(lockStatus({ memoryPath: mp }).stale, false);
+  await assert.rejects(addMemory({ memoryPath: mp, text: "Prefer tabs" }), new RegExp(`Timed out acquiring lock.*held by pid ${process.pid}`));
+  assert.equal(breakLock({ memoryPath: mp }).broken, false);
+  assert.ok(fs.existsSync(lockPath));
+  assert.equal(breakLock({ memoryPath: mp, force: true }).broken, true);
+  assert.ok(!fs.existsSync(lockPath));
+
+  // Held by a running process for longer than MEMORY_LOCK_STALE_MS
+  fs.writeFileSync(lockPath, `${process.pid} ${new Date(Date.now() - 3_600_000).toISOString()}\n`);
+  assert.deepEqual([lockStatus({ memoryPath: mp }).alive, lockStatus({ memoryPath: mp }).stale], [true, true]);
+  await addMemory({ memoryPath: mp, text: "Prefer tabs" });
+  assert.equal(loadStore(mp).records.length, 2);
+  assert.ok(!fs.existsSync(lockPath));
+});
+
+test("legacy files get stable, distinct ids and are upgraded on their next write", async (t) => {
+  const mp = tempStore(t);
+  fs.writeFileSync(mp, JSON.stringify({ description: "Seed", records: [{ text: "Run migrations first" }, { text: "Run migrations first" }, { text: "Tag releases", tags: ["release"] }] }));
+
+  const first = loadStore(mp).records;
+  const ids = first.map((r) => r.id);
+  assert.equal(new Set(ids).size, 3, "equal texts get distinct ids");
+  assert.ok(ids.every((id) => id.startsWith("m_legacy_")));
+  assert.deepEqual(loadStore(mp).records.map((r) => r.id), ids, "ids are stable across reads");
+  assert.deepEqual([first[0].createdAt, first[0].deletedAt, first[2].tags], [new Date(0).toISOString(), null, ["release"]]);
+  assert.ok(first[0].keywords.includes("migrations"));
+
+  await softDeleteById({ memoryPath: mp, id: ids[1] });
+  const file = JSON.parse(fs.readFileSync(mp, "utf-8"));
+  assert.equal(file.version, 2);
+  assert.equal(file.description, "Seed");
+  assert.deepEqual(file.records.map((r: { id: string }) => r.id), ids);
+  assert.ok(file.records[1].deletedAt);
+
+  fs.writeFileSync(mp, JSON.stringify({ version: 99, records: [] }));
+  assert.throws(() => loadStore(mp), /schema version 99/);
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the persistent inverted index: word lookups and the substring
+ * counts the legacy ranker relies on.
+ *
+ * Run with `npm test`.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { MemoryRecord } from "../src/memoryStore.js";
+import { buildIndex, countOccurrences, substringHits, unindexRecord, wordHits } from "../src/searchIndex.js";
+
+/** Builds a minimal active record */
+function record(id: string, text: string): MemoryRecord {
+  return { id, text, tags: [], keywords: [], createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z", deletedAt: null };
+}
+
+const records = [
+  record("a", "Use PostgreSQL 16; postgres-compatible tooling only"),
+  record("b", "Prefer Postgres over MySQL. Postgres, postgres!"),
+  record("c", "Call the constructor, not toString"),
+];
+
+test("word lookups are whole-token and case-insensitive", () => {
+  const index = buildIndex(records);
+  assert.deepEqual(Object.fromEntries(wordHits(index, "postgres")), { a: 1, b: 3 });
+  assert.deepEqual(Object.fromEntries(wordHits(index, "postgresql")), { a: 1 });
+  assert.deepEqual(Object.fromEntries(wordHits(index, "constructor")), { c: 1 });
+  assert.deepEqual(Object.fromEntries(wordHits(index, "valueof")), {});
+});
+
+test("substring counts from the index match counting in the texts", () => {
+  const index = buildIndex(records);
+  for (const tok of ["postgres", "gres", "sql", "o", "tostring", "16"]) {
+    const expected = new Map(records
+      .map((r) => [r.id, countOccurrences(r.text.toLowerCase(), tok)] as const)
+      .filter(([, n]) => n > 0));
+    assert.deepEqual(substringHits(index, tok), expected, tok);
+  }
+});
+
+test("tokens with punctuation are left to the caller", () => {
+  assert.equal(substringHits(buildIndex(records), "postgres-compatible"), null);
+});
+
+test("removing a record drops its postings", () => {
+  const index = buildIndex(records);
+  unindexRecord(index, "b");
+  assert.deepEqual(Object.fromEntries(wordHits(index, "postgres")), { a: 1 });
+  assert.equal(index.terms.mysql, undefined);
+  assert.equal(index.docs.b, undefined);
+});